@@ -0,0 +1,141 @@
+import { StatusError } from './utils/status-error.js';
+import { SummalyError, SummalyErrorCode } from './utils/summaly-error.js';
+import type { SummalyResult } from './summary.js';
+
+export type SummalyCacheEntry = {
+	/**
+	 * The result, or null if summarizing failed
+	 */
+	result: SummalyResult | null;
+
+	/**
+	 * The error thrown if summarizing failed
+	 */
+	error: {
+		code: SummalyErrorCode;
+		message: string;
+		statusCode?: number;
+	} | null;
+
+	/**
+	 * Time (in milliseconds since the epoch) until which the entry is fresh
+	 */
+	expires: number;
+
+	/**
+	 * Time (in milliseconds since the epoch) until which the entry may be served while it is refreshed in the background
+	 */
+	staleUntil: number;
+};
+
+/**
+ * Key/value storage for summaries
+ */
+export interface SummalyCache {
+	get: (key: string) => Promise<SummalyCacheEntry | undefined>;
+	set: (key: string, entry: SummalyCacheEntry) => Promise<void>;
+	delete: (key: string) => Promise<void>;
+}
+
+/**
+ * In-memory LRU cache
+ */
+export class MemoryCache implements SummalyCache {
+	private entries = new Map<string, SummalyCacheEntry>();
+	private max: number;
+
+	constructor(max = 1000) {
+		this.max = max;
+	}
+
+	public async get(key: string): Promise<SummalyCacheEntry | undefined> {
+		const entry = this.entries.get(key);
+		if (entry === undefined) return undefined;
+
+		// Move to the most recently used position
+		this.entries.delete(key);
+		if (Date.now() < entry.staleUntil) {
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	public async set(key: string, entry: SummalyCacheEntry): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.max) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	public async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+}
+
+/**
+ * Get the result of the entry, or throw the error if it is a failure
+ */
+export function restoreCacheEntry(entry: SummalyCacheEntry): SummalyResult {
+	if (entry.result == null) {
+		const error = entry.error ?? { code: 'NO_METADATA', message: 'failed summarize' };
+		if (error.code === 'UPSTREAM_STATUS' && error.statusCode != null) {
+			throw new StatusError(error.message, error.statusCode);
+		}
+		throw new SummalyError(error.code, error.message);
+	}
+	return structuredClone(entry.result);
+}
+
+/**
+ * Get the key of the page in the cache.
+ * `variant` tells apart the other options changing the result than lang.
+ */
+export function getCacheKey(url: string, lang: string | null | undefined, variant?: string): string {
+	const normalized = new URL(url);
+	normalized.searchParams.sort();
+	return variant ? `${lang ?? ''} ${normalized.href} ${variant}` : `${lang ?? ''} ${normalized.href}`;
+}
+
+/**
+ * Get the lifetime (in milliseconds) of the page from Cache-Control or Expires.
+ * Returns null if the page must not be cached.
+ */
+export function getFreshness(headers: Headers): { ttl?: number; stale?: number } | null {
+	const cacheControl = new Map<string, string | null>();
+	for (const directive of (headers.get('cache-control') ?? '').split(',')) {
+		const [name, value] = directive.trim().split('=');
+		if (name) cacheControl.set(name.toLowerCase(), value ? value.replace(/^"(.*)"$/, '$1') : null);
+	}
+
+	if (cacheControl.has('no-store')) {
+		return null;
+	}
+
+	const seconds = (name: string) => {
+		const value = Number(cacheControl.get(name));
+		return cacheControl.has(name) && Number.isFinite(value) && value >= 0 ? value * 1000 : undefined;
+	};
+	const stale = seconds('stale-while-revalidate');
+	const age = Number(headers.get('age')) * 1000 || 0;
+
+	if (cacheControl.has('no-cache')) {
+		return { ttl: 0, stale };
+	}
+
+	const maxAge = seconds('s-maxage') ?? seconds('max-age');
+	if (maxAge !== undefined) {
+		return { ttl: Math.max(maxAge - age, 0), stale };
+	}
+
+	const expires = headers.get('expires');
+	if (expires) {
+		const expiresAt = Date.parse(expires);
+		const date = Date.parse(headers.get('date') ?? '') || Date.now();
+		// Invalid dates mean "already expired"
+		return { ttl: Number.isNaN(expiresAt) ? 0 : Math.max(expiresAt - date, 0), stale };
+	}
+
+	return { stale };
+}
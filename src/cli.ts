@@ -0,0 +1,221 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { SummalyPlugin } from './iplugin.js';
+import { SummalyResult } from './summary.js';
+import { SummalyError } from './utils/summaly-error.js';
+import { mapConcurrent } from './utils/concurrency.js';
+import { summaly, SummalyBatchEntry, SummalyOptions } from './index.js';
+
+export type CliIo = {
+	stdin: AsyncIterable<string | Uint8Array> & { isTTY?: boolean };
+	stdout: { write(chunk: string): unknown };
+	stderr: { write(chunk: string): unknown };
+	cwd: string;
+};
+
+type Target = {
+	url: string;
+	options: SummalyOptions;
+};
+
+const USAGE = `Usage: summaly [options] [url or file...]
+
+Summarize the web pages, or the local HTML files.
+The urls are read from stdin, one per line, if none are given or one of them is "-".
+
+Options:
+  --json                   Print JSON instead of a card
+  --lang <lang>            Accept-Language for the request
+  --user-agent <ua>        User-Agent for the request
+  --timeout <ms>           Deadline for each url
+  --max-size <bytes>       Maximum content length
+  --no-follow-redirects    Don't match plugins on redirected urls
+  --plugin <module>        Use the default export of the module as a plugin (repeatable)
+  --base-url <url>         The url the local files are considered to be at
+  -h, --help               Show this help
+`;
+
+const CONCURRENCY = 4;
+
+function parse(args: string[]) {
+	return parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			'json': { type: 'boolean' },
+			'lang': { type: 'string' },
+			'user-agent': { type: 'string' },
+			'timeout': { type: 'string' },
+			'max-size': { type: 'string' },
+			'no-follow-redirects': { type: 'boolean' },
+			'plugin': { type: 'string', multiple: true },
+			'base-url': { type: 'string' },
+			'help': { type: 'boolean', short: 'h' },
+		},
+	});
+}
+
+function toNumber(name: string, value: string | undefined): number | undefined {
+	if (value === undefined) return undefined;
+	const number = Number(value);
+	if (!Number.isFinite(number) || number < 0) {
+		throw new TypeError(`--${name} must be a non-negative number: ${value}`);
+	}
+	return number;
+}
+
+async function loadPlugins(specifiers: string[], cwd: string): Promise<SummalyPlugin[]> {
+	const plugins: SummalyPlugin[] = [];
+	for (const specifier of specifiers) {
+		// Paths are relative to the working directory, anything else is a package
+		const isPath = /^\.{0,2}[/\\]/.test(specifier) || /^[a-zA-Z]:[/\\]/.test(specifier);
+		const module = await import(isPath ? pathToFileURL(resolve(cwd, specifier)).href : specifier);
+		plugins.push(...[module.default ?? module].flat());
+	}
+	return plugins;
+}
+
+async function readUrls(stdin: CliIo['stdin']): Promise<string[]> {
+	let text = '';
+	const decoder = new TextDecoder();
+	for await (const chunk of stdin) {
+		text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+	}
+	return text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '' && !line.startsWith('#'));
+}
+
+/**
+ * Serve the local file at the url, and nothing else
+ */
+function createFileFetch(url: string, path: string): typeof globalThis.fetch {
+	return async (input, init) => {
+		const requested = input instanceof Request ? input.url : String(input);
+		if (requested !== url) {
+			return new Response(null, { status: 404 });
+		}
+		const content = await readFile(path);
+		return new Response(init?.method === 'HEAD' ? null : content, {
+			headers: {
+				'content-type': 'text/html',
+				'content-length': String(content.length),
+			},
+		});
+	};
+}
+
+function getTarget(arg: string, options: SummalyOptions, baseUrl: string | undefined, cwd: string): Target {
+	const isUrl = URL.canParse(arg) && ['http:', 'https:'].includes(new URL(arg).protocol);
+	const path = arg.startsWith('file:') ? fileURLToPath(arg) : resolve(cwd, arg);
+	if (isUrl || !existsSync(path)) {
+		return { url: arg, options };
+	}
+
+	const url = new URL(baseUrl ?? basename(path), 'http://localhost/').href;
+	return {
+		url,
+		options: { ...options, fetch: createFileFetch(url, path) },
+	};
+}
+
+function formatCard(url: string, result: SummalyResult): string {
+	const lines = [result.title ?? '(no title)', result.url !== url ? `${url} -> ${result.url}` : url];
+	const fields: [string, string | null | undefined][] = [
+		['site', result.sitename],
+		['description', result.description],
+		['icon', result.icon],
+		['thumbnail', result.thumbnail],
+		['player', result.player.url],
+		['author', result.author],
+		['published', result.publishedTime],
+		['sensitive', result.sensitive ? 'yes' : null],
+	];
+	for (const [name, value] of fields) {
+		if (value) lines.push(`  ${`${name}:`.padEnd(13)}${value.replace(/\s+/g, ' ')}`);
+	}
+	return lines.join('\n') + '\n';
+}
+
+function formatError(error: Error): { code: string; message: string } {
+	return {
+		code: error instanceof SummalyError ? error.code : 'INTERNAL_ERROR',
+		message: error.message,
+	};
+}
+
+/**
+ * Run the command line interface, resolving with the exit code.
+ * 0 if every url is summarized, 1 if any of them fails and 2 if the arguments are invalid.
+ */
+export async function cli(args: string[], io: CliIo): Promise<number> {
+	let values: ReturnType<typeof parse>['values'];
+	let positionals: string[];
+	let options: SummalyOptions;
+	try {
+		({ values, positionals } = parse(args));
+
+		options = {
+			lang: values.lang,
+			userAgent: values['user-agent'],
+			timeout: toNumber('timeout', values.timeout),
+			contentLengthLimit: toNumber('max-size', values['max-size']),
+			followRedirects: !values['no-follow-redirects'],
+			plugins: await loadPlugins(values.plugin ?? [], io.cwd),
+		};
+	} catch (e) {
+		io.stderr.write(`summaly: ${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+		return 2;
+	}
+
+	if (values.help) {
+		io.stdout.write(USAGE);
+		return 0;
+	}
+
+	if (positionals.length === 0) {
+		// Don't wait for the urls to be typed in
+		if (io.stdin.isTTY) {
+			io.stderr.write(USAGE);
+			return 2;
+		}
+		positionals = ['-'];
+	}
+	const stdinUrls = positionals.includes('-') ? await readUrls(io.stdin) : [];
+	const targets = positionals
+		.flatMap(arg => arg === '-' ? stdinUrls : [arg])
+		.map(arg => getTarget(arg, options, values['base-url'], io.cwd));
+
+	if (targets.length === 0) {
+		io.stderr.write(USAGE);
+		return 2;
+	}
+
+	const entries = await mapConcurrent(targets, CONCURRENCY, async ({ url, options }): Promise<SummalyBatchEntry> => {
+		try {
+			return { url, result: await summaly(url, options), error: null };
+		} catch (e) {
+			return { url, result: null, error: e instanceof Error ? e : new Error(String(e)) };
+		}
+	});
+
+	if (values.json) {
+		// A single url prints the same as `GET /`, and many urls the same as `POST /batch` without the status
+		const json = entries.length === 1
+			? entries[0].result ?? { error: formatError(entries[0].error) }
+			: entries.map(({ url, result, error }) => error ? { url, error: formatError(error) } : { url, result });
+		io.stdout.write(JSON.stringify(json, null, '\t') + '\n');
+	} else {
+		io.stdout.write(entries.flatMap(({ url, result }) => result ? [formatCard(url, result)] : []).join('\n'));
+	}
+
+	for (const { url, error } of entries) {
+		if (error) {
+			const { code, message } = formatError(error);
+			io.stderr.write(`summaly: ${code}: ${message} (${url})\n`);
+		}
+	}
+
+	return entries.some(entry => entry.error) ? 1 : 0;
+}
@@ -1,54 +1,108 @@
 import { decode as decodeHtml } from 'html-entities';
 import * as cheerio from 'cheerio';
+import MIMEType from 'whatwg-mimetype';
 import clip from './utils/clip.js';
 import cleanupTitle from './utils/cleanup-title.js';
 
-import { get, head, scpaping } from './utils/got.js';
-import type { default as Summary, Player } from './summary.js';
+import { get, head, getPage, isHtml, parseHtml, DEFAULT_MAX_RESPONSE_SIZE } from './utils/got.js';
+import { readHead, getImageSize, getPdfInfo } from './utils/media.js';
+import { discoverOEmbed, findOEmbedProvider, parseOEmbed } from './utils/oembed.js';
+import { getJsonLd } from './utils/json-ld.js';
+import { getManifest } from './utils/manifest.js';
+import { getLinkIcons, getManifestIcons, rankIcons } from './utils/icons.js';
+import { StatusError } from './utils/status-error.js';
+import { toSummalyError } from './utils/summaly-error.js';
+import * as activityPubPlugin from './plugins/activitypub.js';
+import type { OEmbedProvider } from './utils/oembed.js';
+import type { GotResponse, RequestOptions, ScpapingOptions } from './utils/got.js';
+import type { default as Summary, Image, Player } from './summary.js';
+
+type OEmbed = {
+	player: Player | null;
+	title: string | null;
+	authorName: string | null;
+	authorUrl: string | null;
+	providerName: string | null;
+	thumbnail: string | null;
+	thumbnailWidth: number | null;
+	thumbnailHeight: number | null;
+};
+
+function toText(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() !== '' ? decodeHtml(value.trim()) : null;
+}
+
+function toDimension(value: unknown): number | null {
+	const number = Number(value);
+	return value != null && value !== '' && Number.isFinite(number) && number > 0 ? number : null;
+}
+
+function toHttpUrl(value: unknown, base: string): string | null {
+	if (typeof value !== 'string' || value === '') return null;
+	try {
+		const url = new URL(value, base);
+		return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null;
+	} catch {
+		return null;
+	}
+}
 
 /**
- * Contains only the html snippet for a sanitized iframe as the thumbnail is
- * mostly covered in OpenGraph instead.
- *
- * Width should always be 100%.
+ * Fetch the oEmbed data of the page. The metadata is used where the page
+ * lacks OpenGraph, and photos are used as the thumbnail.
  */
-async function getOEmbedPlayer($: cheerio.CheerioAPI, pageUrl: string): Promise<Player | null> {
-	const href = $('link[type="application/json+oembed"]').attr('href');
-	if (!href) {
+async function getOEmbed($: cheerio.CheerioAPI, pageUrl: string, headers: Headers, providers: OEmbedProvider[] | string | undefined, opts: RequestOptions): Promise<OEmbed | null> {
+	const endpoint = discoverOEmbed($, headers, pageUrl) ??
+		(providers ? await findOEmbedProvider(providers, pageUrl).catch(() => null) : null);
+	if (!endpoint) {
 		return null;
 	}
 
-	const oEmbedUrl = (() => {
-		try {
-			return new URL(href, pageUrl);
-		} catch { return null; }
-	})();
-	if (!oEmbedUrl) {
+	const oEmbed = await get(endpoint.url.href, opts).catch(() => null);
+	if (!oEmbed) {
 		return null;
 	}
 
-	const oEmbed = await get(oEmbedUrl.href).catch(() => null);
-	if (!oEmbed) {
+	const body = parseOEmbed(oEmbed, endpoint.format);
+
+	if (!body || body.version !== '1.0' || typeof body.type !== 'string' || !['photo', 'video', 'link', 'rich'].includes(body.type)) {
+		// Not a well formed oEmbed
 		return null;
 	}
 
-	const body = (() => {
-		try {
-			return JSON.parse(oEmbed);
-		} catch { /* empty */ }
-	})();
+	const photo = body.type === 'photo' ? toHttpUrl(body.url, pageUrl) : null;
+
+	return {
+		player: getOEmbedPlayer(body),
+		title: toText(body.title),
+		authorName: toText(body.author_name),
+		authorUrl: toHttpUrl(body.author_url, pageUrl),
+		providerName: toText(body.provider_name),
+		thumbnail: photo ?? toHttpUrl(body.thumbnail_url, pageUrl),
+		thumbnailWidth: toDimension(photo ? body.width : body.thumbnail_width),
+		thumbnailHeight: toDimension(photo ? body.height : body.thumbnail_height),
+	};
+}
 
-	if (!body || body.version !== '1.0' || !['rich', 'video'].includes(body.type)) {
-		// Not a well formed rich oEmbed
+/**
+ * Contains only the html snippet for a sanitized iframe as the thumbnail is
+ * mostly covered in OpenGraph instead.
+ *
+ * Width should always be 100%.
+ */
+function getOEmbedPlayer(body: Record<string, unknown>): Player | null {
+	const html = body.html;
+	if ((body.type !== 'rich' && body.type !== 'video') || typeof html !== 'string') {
+		// Not a rich oEmbed
 		return null;
 	}
 
-	if (!body.html.startsWith('<iframe ') || !body.html.endsWith('</iframe>')) {
+	if (!html.startsWith('<iframe ') || !html.endsWith('</iframe>')) {
 		// It includes something else than an iframe
 		return null;
 	}
 
-	const oEmbedHtml = cheerio.load(body.html);
+	const oEmbedHtml = cheerio.load(html);
 	const iframe = oEmbedHtml('iframe');
 
 	if (iframe.length !== 1) {
@@ -84,11 +138,13 @@ async function getOEmbedPlayer($: cheerio.CheerioAPI, pageUrl: string): Promise<
 	//
 	// Spotify gives `width: 100%, height: 152px` for iframe while `width: 456,
 	// height: 152` for oEmbed data, and we treat any percentages as null here.
-	let width: number | null = Number(iframe.attr('width') ?? body.width);
+	// The XML format gives the dimensions as strings
+	const toSize = (value: unknown) => typeof value === 'number' || typeof value === 'string' ? value : undefined;
+	let width: number | null = Number(iframe.attr('width') ?? toSize(body.width));
 	if (Number.isNaN(width)) {
 		width = null;
 	}
-	const height = Math.min(Number(iframe.attr('height') ?? body.height), 1024);
+	const height = Math.min(Number(iframe.attr('height') ?? toSize(body.height)), 1024);
 	if (Number.isNaN(height)) {
 		// No proper height info
 		return null;
@@ -129,6 +185,172 @@ async function getOEmbedPlayer($: cheerio.CheerioAPI, pageUrl: string): Promise<
 	};
 }
 
+const MEDIA_TYPE_FILTER = /^(image\/|video\/|audio\/|application\/pdf)/;
+const IMAGE_HEAD_SIZE = 256 * 1024;
+// Icons from the Web App Manifest are picked for this size unless specified, which fits high-DPI displays
+const DEFAULT_ICON_SIZE = 64;
+const PDF_HEAD_SIZE = 1024 * 1024;
+
+async function findIcon(path: string, pageUrl: string, opts: RequestOptions): Promise<URL | null> {
+	const target = new URL(path, pageUrl);
+	try {
+		await head(target.href, opts);
+		return target;
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Find the first of the urls which is an image.
+ * Servers that do not support HEAD requests are trusted.
+ */
+async function findThumbnail(urls: string[], opts: RequestOptions): Promise<string | null> {
+	for (const url of urls) {
+		try {
+			const res = await head(url, opts);
+			if (res.response.headers.get('content-type')?.trim().toLowerCase().startsWith('image/')) {
+				return url;
+			}
+		} catch (e) {
+			if (e instanceof StatusError && (e.statusCode === 405 || e.statusCode === 501)) {
+				return url;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Get the og:image and its structured properties, which apply to the image declared right before them.
+ * See https://ogp.me/#structured
+ */
+function getOgImages($: cheerio.CheerioAPI, pageUrl: string): Image[] {
+	const images: { url: string | null; width: number | null; height: number | null; alt: string | null; type: string | null }[] = [];
+	// Percentages are not dimensions
+	const dimension = (value: string) => /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+
+	for (const element of $('meta[property^="og:image"]').toArray()) {
+		const property = $(element).attr('property');
+		const content = $(element).attr('content')?.trim();
+		if (!content) continue;
+
+		let current = images.at(-1);
+		if (property === 'og:image' || (property === 'og:image:url' && current?.url !== content)) {
+			current = { url: null, width: null, height: null, alt: null, type: null };
+			images.push(current);
+		}
+		if (!current) continue;
+
+		switch (property) {
+			case 'og:image':
+			case 'og:image:url':
+				current.url = content;
+				break;
+			case 'og:image:secure_url':
+				current.url ??= content;
+				break;
+			case 'og:image:width':
+				current.width = dimension(content);
+				break;
+			case 'og:image:height':
+				current.height = dimension(content);
+				break;
+			case 'og:image:alt':
+				current.alt = decodeHtml(content);
+				break;
+			case 'og:image:type':
+				current.type = content;
+				break;
+		}
+	}
+
+	return images.flatMap(image => {
+		try {
+			return image.url ? [{ ...image, url: new URL(image.url, pageUrl).href }] : [];
+		} catch {
+			return [];
+		}
+	});
+}
+
+/**
+ * Summarize an image, a video, an audio or a PDF, reading only the first bytes needed.
+ */
+async function summarizeMedia(res: GotResponse, opts: GeneralScrapingOptions | undefined, requestOptions: RequestOptions): Promise<Summary> {
+	const url = new URL(res.response.url);
+	const type = MIMEType.parse(res.response.headers.get('content-type') ?? '')?.essence ?? '';
+	const maxSize = opts?.contentLengthLimit ?? DEFAULT_MAX_RESPONSE_SIZE;
+
+	const filename = (() => {
+		try {
+			return decodeURIComponent(url.pathname.split('/').pop() ?? '');
+		} catch {
+			return null;
+		}
+	})();
+
+	const summary: Summary = {
+		title: filename || url.host,
+		icon: null,
+		description: null,
+		thumbnail: null,
+		sitename: url.host,
+		player: {
+			url: null,
+			width: null,
+			height: null,
+			allow: [],
+		},
+		sensitive: false,
+		activityPub: null,
+	};
+
+	if (type.startsWith('image/')) {
+		const size = getImageSize(await readHead(res.body, Math.min(IMAGE_HEAD_SIZE, maxSize)));
+		summary.thumbnail = url.href;
+		summary.thumbnailWidth = size?.width ?? null;
+		summary.thumbnailHeight = size?.height ?? null;
+	} else if (type === 'application/pdf') {
+		const info = getPdfInfo(await readHead(res.body, Math.min(PDF_HEAD_SIZE, maxSize)));
+		summary.title = info.title ? clip(info.title, 100) : summary.title;
+		summary.author = info.author;
+	} else {
+		await res.body.body?.cancel();
+		summary.player = {
+			url: url.href,
+			width: null,
+			height: null,
+			allow: ['autoplay', 'fullscreen'],
+			mediaType: type,
+		};
+	}
+
+	summary.icon = (await findIcon('/favicon.ico', url.href, requestOptions))?.href ?? null;
+
+	return summary;
+}
+
+/**
+ * Overwrite the summary of the page with the values from its ActivityPub representation,
+ * keeping the player and the link to the representation of the page.
+ */
+function mergeActivityPubSummary(summary: Summary, apSummary: Summary): Summary {
+	const values = Object.entries(apSummary).filter(([key, value]) =>
+		key !== 'player' && key !== 'activityPub' && value != null && !(Array.isArray(value) && value.length === 0));
+	return {
+		...summary,
+		...Object.fromEntries(values),
+		// The dimensions belong to the thumbnail
+		...(apSummary.thumbnail ? {
+			thumbnailWidth: apSummary.thumbnailWidth,
+			thumbnailHeight: apSummary.thumbnailHeight,
+			thumbnailAlt: apSummary.thumbnailAlt,
+		} : {}),
+		sensitive: summary.sensitive || apSummary.sensitive,
+	};
+}
+
 export type GeneralScrapingOptions = {
 	lang?: string | null;
 	userAgent?: string;
@@ -136,25 +358,128 @@ export type GeneralScrapingOptions = {
 	operationTimeout?: number;
 	contentLengthLimit?: number;
 	contentLengthRequired?: boolean;
+	rejectPrivateAddresses?: boolean;
+	allowedNetworks?: string[];
+	deniedNetworks?: string[];
+	maxRedirects?: number;
+	oEmbedProviders?: OEmbedProvider[] | string;
+	jsonLd?: boolean;
+	probeThumbnail?: boolean;
+	iconSize?: number;
+	manifest?: boolean;
+	fetchActivityPub?: boolean;
+	signal?: AbortSignal;
+	fetch?: typeof globalThis.fetch;
+	proxy?: string | boolean;
+	noProxy?: string[];
+	interceptRedirect?: (url: URL) => boolean;
 }
 
-export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promise<Summary | null> => {
-	let lang = opts?.lang;
-	// eslint-disable-next-line no-param-reassign
-	if (lang && !lang.match(/^[\w-]+(\s*,\s*[\w-]+)*$/)) lang = null;
-
-	_url = typeof _url === 'string' ? new URL(_url) : _url;
-
-	const res = await scpaping(_url.href, {
-		lang: lang || undefined,
+/**
+ * Get the options for the request of the page
+ */
+export function getScrapingOptions(opts?: GeneralScrapingOptions): ScpapingOptions {
+	const lang = opts?.lang;
+	return {
+		lang: lang && /^[\w-]+(\s*,\s*[\w-]+)*$/.test(lang) ? lang : undefined,
 		userAgent: opts?.userAgent,
 		responseTimeout: opts?.responseTimeout,
 		operationTimeout: opts?.operationTimeout,
 		contentLengthLimit: opts?.contentLengthLimit,
 		contentLengthRequired: opts?.contentLengthRequired,
-	});
+		rejectPrivateAddresses: opts?.rejectPrivateAddresses,
+		allowedNetworks: opts?.allowedNetworks,
+		deniedNetworks: opts?.deniedNetworks,
+		maxRedirects: opts?.maxRedirects,
+		signal: opts?.signal,
+		fetch: opts?.fetch,
+		proxy: opts?.proxy,
+		noProxy: opts?.noProxy,
+		interceptRedirect: opts?.interceptRedirect,
+	};
+}
+
+/**
+ * Get the options for the requests other than the page, such as APIs and oEmbed
+ */
+export function getRequestOptions(opts?: GeneralScrapingOptions): RequestOptions {
+	return {
+		userAgent: opts?.userAgent,
+		responseTimeout: opts?.responseTimeout,
+		operationTimeout: opts?.operationTimeout,
+		contentLengthLimit: opts?.contentLengthLimit,
+		rejectPrivateAddresses: opts?.rejectPrivateAddresses,
+		allowedNetworks: opts?.allowedNetworks,
+		deniedNetworks: opts?.deniedNetworks,
+		maxRedirects: opts?.maxRedirects,
+		signal: opts?.signal,
+		fetch: opts?.fetch,
+		proxy: opts?.proxy,
+		noProxy: opts?.noProxy,
+	};
+}
+
+export type GeneralScrapingResult = {
+	summary: Summary | null;
+
+	/**
+	 * The urls redirected to before reaching the page, in order
+	 */
+	redirects: string[];
+
+	/**
+	 * The response headers of the page
+	 */
+	headers: Headers;
+}
+
+/**
+ * Hooks for the plugins built on the general scraper, which apply to HTML pages only
+ */
+export type GeneralScrapingHooks = {
+	/**
+	 * The CSS selectors of the elements used by transform(), which are otherwise stripped while parsing.
+	 * Select the elements with selectParsed() as the selectors may not match the parsed page.
+	 */
+	selectors?: string[];
+
+	/**
+	 * Post-process the summary
+	 */
+	transform?: ($: cheerio.CheerioAPI, summary: Summary, url: URL) => Summary | Promise<Summary>;
+};
+
+export async function scrapeGeneral(_url: URL | string, opts?: GeneralScrapingOptions, hooks?: GeneralScrapingHooks): Promise<GeneralScrapingResult> {
+	_url = typeof _url === 'string' ? new URL(_url) : _url;
+
+	const requestOptions = getRequestOptions(opts);
+
+	const page = await getPage(_url.href, getScrapingOptions(opts), MEDIA_TYPE_FILTER, opts?.fetchActivityPub ? activityPubPlugin.ACTIVITY_PUB_TYPE_FILTER : undefined);
+
+	if (opts?.fetchActivityPub && activityPubPlugin.ACTIVITY_PUB_TYPE_FILTER.test(page.response.headers.get('content-type') ?? '')) {
+		const body = await page.body.text().catch(e => {
+			throw toSummalyError(e);
+		});
+		const object = activityPubPlugin.parseActivityPubObject(body, page.response.url);
+		return {
+			summary: object && await activityPubPlugin.summarize(object, requestOptions),
+			redirects: page.redirects,
+			headers: page.response.headers,
+		};
+	}
+
+	if (!isHtml(page)) {
+		return {
+			summary: await summarizeMedia(page, opts, requestOptions),
+			redirects: page.redirects,
+			headers: page.response.headers,
+		};
+	}
+
+	const res = await parseHtml(page, hooks?.selectors);
 	const url = new URL(res.response.response.url);
 	const $ = res.$;
+	const jsonLd = getJsonLd($, url.href);
 	const twitterCard =
 		$('meta[name="twitter:card"]').attr('content') ||
 		$('meta[property="twitter:card"]').attr('content');
@@ -169,24 +494,43 @@ export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promis
 		$('meta[property="og:title"]').attr('content') ||
 		$('meta[name="twitter:title"]').attr('content') ||
 		$('meta[property="twitter:title"]').attr('content') ||
+		jsonLd?.title ||
 		$('title').text();
 
 	// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
 	if (title === undefined || title === null) {
-		return null;
+		return {
+			summary: null,
+			redirects: res.response.redirects,
+			headers: res.response.response.headers,
+		};
 	}
 
 	title = clip(decodeHtml(title), 100);
 
-	let image: string | null | undefined =
-		$('meta[property="og:image"]').attr('content') ||
-		$('meta[name="twitter:image"]').attr('content') ||
-		$('meta[property="twitter:image"]').attr('content') ||
-		$('link[rel="image_src"]').attr('href') ||
-		$('link[rel="apple-touch-icon"]').attr('href') ||
-		$('link[rel="apple-touch-icon image_src"]').attr('href');
+	const images = getOgImages($, url.href);
+
+	const resolve = (href: string | null | undefined) => {
+		try {
+			return href ? new URL(href, url.href).href : null;
+		} catch {
+			return null;
+		}
+	};
 
-	image = image ? (new URL(image, url.href)).href : null;
+	const twitterImage = resolve(
+		$('meta[name="twitter:image"]').attr('content') ||
+		$('meta[property="twitter:image"]').attr('content'));
+
+	// In order of preference
+	const thumbnails = [
+		...images.map(image => image.url),
+		twitterImage,
+		resolve(jsonLd?.image),
+		resolve($('link[rel="image_src"]').attr('href')),
+		resolve($('link[rel="apple-touch-icon"]').attr('href')),
+		resolve($('link[rel="apple-touch-icon image_src"]').attr('href')),
+	].filter((thumbnail): thumbnail is string => thumbnail !== null);
 
 	const playerUrl =
 		(twitterCard !== 'summary_large_image' && $('meta[name="twitter:player"]').attr('content')) ||
@@ -211,6 +555,7 @@ export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promis
 		$('meta[property="og:description"]').attr('content') ||
 		$('meta[name="twitter:description"]').attr('content') ||
 		$('meta[property="twitter:description"]').attr('content') ||
+		jsonLd?.description ||
 		$('meta[name="description"]').attr('content');
 
 	description = description
@@ -221,42 +566,122 @@ export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promis
 		description = null;
 	}
 
-	const siteName = decodeHtml(
+	const pageSiteName =
 		$('meta[property="og:site_name"]').attr('content') ||
 		$('meta[name="application-name"]').attr('content') ||
-		url.host,
-	);
+		jsonLd?.publisherName;
 
 	const favicon =
 		$('link[rel="shortcut icon"]').attr('href') ||
-		$('link[rel="icon"]').attr('href') ||
-		'/favicon.ico';
+		$('link[rel="icon"]').attr('href');
+
+	const manifestUrl = resolve($('link[rel~="manifest" i]').attr('href'));
 
 	const activityPub =
 		$('link[rel="alternate"][type="application/activity+json"]').attr('href') || null;
 
+	const type = $('meta[property="og:type"]').attr('content') || null;
+
+	const locale = $('meta[property="og:locale"]').attr('content') || null;
+
+	const publishedTime =
+		$('meta[property="article:published_time"]').attr('content') ||
+		jsonLd?.publishedTime ||
+		null;
+
+	const modifiedTime =
+		$('meta[property="article:modified_time"]').attr('content') ||
+		$('meta[property="og:updated_time"]').attr('content') ||
+		jsonLd?.modifiedTime ||
+		null;
+
+	// article:author is either the name or the url of the profile
+	const articleAuthor = $('meta[property="article:author"]').attr('content');
+	const articleAuthorIsUrl = !!articleAuthor && /^https?:\/\//.test(articleAuthor);
+
+	const themeColor =
+		$('meta[name="theme-color"]:not([media])').attr('content') ||
+		$('meta[name="theme-color"]').attr('content') ||
+		null;
+
 	// https://developer.mixi.co.jp/connect/mixi_plugin/mixi_check/spec_mixi_check/#toc-18-
 	const sensitive =
 		$('meta[property=\'mixi:content-rating\']').attr('content') === '1';
 
-	const find = async (path: string) => {
-		const target = new URL(path, url.href);
-		try {
-			await head(target.href);
-			return target;
-		} catch (e) {
-			return null;
-		}
+	const getManifestData = async () => {
+		if (!manifestUrl || !(opts?.manifest || opts?.iconSize)) return null;
+		return await getManifest(manifestUrl, requestOptions);
 	};
+	const manifestPromise = getManifestData();
 
 	const getIcon = async () => {
-		return (await find(favicon)) || null;
+		const manifest = await manifestPromise;
+		const candidates =
+			opts?.iconSize ? rankIcons([...getLinkIcons($, url.href), ...getManifestIcons(manifest)], opts.iconSize).map(icon => icon.url) :
+			favicon ? [favicon] :
+			rankIcons(getManifestIcons(manifest), DEFAULT_ICON_SIZE).map(icon => icon.url);
+		if (opts?.iconSize || !favicon) {
+			candidates.push('/favicon.ico');
+		}
+		for (const candidate of candidates) {
+			const icon = await findIcon(candidate, url.href, requestOptions);
+			if (icon) return icon;
+		}
+		return jsonLd?.publisherLogo ? new URL(jsonLd.publisherLogo) : null;
 	};
 
-	const [icon, oEmbed] = await Promise.all([
+	const getActivityPubSummary = async () => {
+		const apUrl = resolve(activityPub);
+		if (!opts?.fetchActivityPub || !apUrl) return null;
+		const object = await activityPubPlugin.getActivityPubObject(apUrl, requestOptions);
+		return object && await activityPubPlugin.summarize(object, requestOptions).catch(() => null);
+	};
+
+	const [icon, oEmbed, fetchedManifest, apSummary] = await Promise.all([
 		getIcon(),
-		getOEmbedPlayer($, url.href),
+		getOEmbed($, url.href, page.response.headers, opts?.oEmbedProviders, requestOptions),
+		manifestPromise,
+		getActivityPubSummary(),
 	]);
+	// The manifest may have been fetched only for the icons
+	const manifest = opts?.manifest ? fetchedManifest : null;
+
+	const siteName =
+		(pageSiteName ? decodeHtml(pageSiteName) : null) ??
+		manifest?.name ??
+		manifest?.shortName ??
+		oEmbed?.providerName ??
+		url.host;
+
+	const author =
+		(!articleAuthorIsUrl && articleAuthor) ||
+		$('meta[name="author"]').attr('content') ||
+		jsonLd?.author ||
+		oEmbed?.authorName ||
+		null;
+
+	const authorUrl =
+		(articleAuthorIsUrl && articleAuthor) ||
+		oEmbed?.authorUrl ||
+		null;
+
+	if (oEmbed?.thumbnail) {
+		thumbnails.push(oEmbed.thumbnail);
+	}
+
+	const thumbnail = opts?.probeThumbnail
+		? await findThumbnail(thumbnails, requestOptions)
+		: thumbnails.at(0) ?? null;
+
+	// The structured properties describe the image picked as the thumbnail
+	const ogImage = images.find(image => image.url === thumbnail);
+	const twitterImageAlt = $('meta[name="twitter:image:alt"]').attr('content');
+	const thumbnailFromOEmbed = !ogImage && thumbnail !== null && thumbnail === oEmbed?.thumbnail;
+	const thumbnailFromTwitter = !ogImage && thumbnail !== null && thumbnail === twitterImage;
+
+	if (title === '' && oEmbed?.title) {
+		title = clip(oEmbed.title, 100);
+	}
 
 	// Clean up the title
 	title = cleanupTitle(title, siteName);
@@ -265,12 +690,23 @@ export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promis
 		title = siteName;
 	}
 
-	return {
+	const summary: Summary = {
 		title: title || null,
 		icon: icon?.href || null,
 		description: description || null,
-		thumbnail: image || null,
-		player: oEmbed ?? {
+		thumbnail,
+		thumbnailWidth: ogImage ? ogImage.width : thumbnailFromOEmbed ? oEmbed.thumbnailWidth : null,
+		thumbnailHeight: ogImage ? ogImage.height : thumbnailFromOEmbed ? oEmbed.thumbnailHeight : null,
+		thumbnailAlt: ogImage ? ogImage.alt : thumbnailFromTwitter && twitterImageAlt ? decodeHtml(twitterImageAlt) : null,
+		images,
+		author: author ? decodeHtml(author) : null,
+		authorUrl,
+		publishedTime,
+		modifiedTime,
+		type,
+		locale,
+		themeColor: themeColor ?? manifest?.themeColor ?? null,
+		player: oEmbed?.player ?? {
 			url: playerUrl || null,
 			width: Number.isNaN(playerWidth) ? null : playerWidth,
 			height: Number.isNaN(playerHeight) ? null : playerHeight,
@@ -279,5 +715,18 @@ export default async (_url: URL | string, opts?: GeneralScrapingOptions): Promis
 		sitename: siteName || null,
 		sensitive,
 		activityPub,
+		...(opts?.jsonLd ? { jsonLd: jsonLd?.object ?? null } : {}),
 	};
+
+	const merged = apSummary ? mergeActivityPubSummary(summary, apSummary) : summary;
+
+	return {
+		summary: hooks?.transform ? await hooks.transform($, merged, url) : merged,
+		redirects: res.response.redirects,
+		headers: res.response.response.headers,
+	};
+}
+
+export default async (url: URL | string, opts?: GeneralScrapingOptions, hooks?: GeneralScrapingHooks): Promise<Summary | null> => {
+	return (await scrapeGeneral(url, opts, hooks)).summary;
 };
@@ -3,12 +3,33 @@
  * https://github.com/misskey-dev/summaly
  */
 
-import { head } from './utils/got.js';
-import { SummalyResult } from './summary.js';
+import Summary, { SummalyResult } from './summary.js';
 import { SummalyPlugin } from './iplugin.js';
+import { SummalyCache, getCacheKey, getFreshness, restoreCacheEntry } from './cache.js';
+import { StatusError } from './utils/status-error.js';
+import { SummalyError, getHttpStatus } from './utils/summaly-error.js';
+import { coalesce, toKey } from './utils/coalesce.js';
+import { mapConcurrent } from './utils/concurrency.js';
+import { abortable } from './utils/abortable.js';
+import { RedirectInterception } from './utils/redirect-interception.js';
+import { DEFAULT_MAX_REDIRECTS } from './utils/got.js';
 export * from './iplugin.js';
-import general, { GeneralScrapingOptions } from './general.js';
+export { SummalyError } from './utils/summaly-error.js';
+export type { SummalyErrorCode } from './utils/summaly-error.js';
+export { StatusError } from './utils/status-error.js';
+export { BlockedAddressError } from './utils/blocked-address-error.js';
+export type { OEmbedProvider } from './utils/oembed.js';
+export { loadRules } from './rules.js';
+export type { SiteRule, FieldRule, RuleField } from './rules.js';
+export { RuleError } from './utils/rule-error.js';
+export { selectParsed } from './utils/got.js';
+export { MemoryCache } from './cache.js';
+export type { SummalyCache, SummalyCacheEntry } from './cache.js';
+import { scrapeGeneral, GeneralScrapingOptions, GeneralScrapingResult } from './general.js';
 import { plugins as builtinPlugins } from './plugins/index.js';
+import { loadRules } from './rules.js';
+import type { OEmbedProvider } from './utils/oembed.js';
+import type { SiteRule } from './rules.js';
 import type { FastifyInstance } from 'fastify';
 
 export type SummalyOptions = {
@@ -22,11 +43,23 @@ export type SummalyOptions = {
 	 */
 	followRedirects?: boolean;
 
+	/**
+	 * Maximum number of redirects to follow.
+	 * The scheme and the address of every hop are validated.
+	 */
+	maxRedirects?: number;
+
 	/**
 	 * Custom Plugins
 	 */
 	plugins?: SummalyPlugin[];
 
+	/**
+	 * Declarative site rules, or the path to the JSON or YAML file of them.
+	 * They are matched before the plugins.
+	 */
+	rules?: SiteRule[] | string;
+
 	/**
 	 * User-Agent for the request
 	 */
@@ -44,6 +77,35 @@ export type SummalyOptions = {
 	 */
 	operationTimeout?: number;
 
+	/**
+	 * The deadline (in milliseconds) for the whole call, covering every request such as redirects, the icon, oEmbed and the APIs of the plugins.
+	 */
+	timeout?: number;
+
+	/**
+	 * Cancel the call with `ABORTED`.
+	 * Concurrent calls for the same page share the work, which is cancelled when all of them are.
+	 */
+	signal?: AbortSignal | null;
+
+	/**
+	 * The fetch to send the requests with, such as one with a custom agent or a mock.
+	 * The proxy is not used if it is set.
+	 */
+	fetch?: typeof globalThis.fetch;
+
+	/**
+	 * The URL of the proxy to send the requests through.
+	 * If set to true, it is read from the HTTP_PROXY and HTTPS_PROXY environment variables.
+	 */
+	proxy?: string | boolean;
+
+	/**
+	 * Hosts, domains and networks in CIDR notation to request directly rather than through the proxy.
+	 * Defaults to the NO_PROXY environment variable if proxy is set to true.
+	 */
+	noProxy?: string[];
+
 	/**
 	 * Maximum content length.
 	 * If set to true, an error will occur if the content-length value returned from the other server is larger than this parameter (or if the received body size exceeds this parameter).
@@ -55,37 +117,287 @@ export type SummalyOptions = {
 	 * If set to true, it will be an error if the other server does not return content-length.
 	 */
 	contentLengthRequired?: boolean;
+
+	/**
+	 * Reject requests to private network addresses.
+	 * Loopback, link-local, RFC1918, unique local and cloud metadata addresses are rejected, including on every redirect hop.
+	 */
+	rejectPrivateAddresses?: boolean;
+
+	/**
+	 * Networks in CIDR notation that are allowed even if rejectPrivateAddresses is set.
+	 */
+	allowedNetworks?: string[];
+
+	/**
+	 * Networks in CIDR notation that are always rejected.
+	 */
+	deniedNetworks?: string[];
+
+	/**
+	 * oEmbed providers in the format of https://oembed.com/providers.json, or the path to such a file.
+	 * Used for pages that don't advertise their oEmbed endpoint.
+	 */
+	oEmbedProviders?: OEmbedProvider[] | string;
+
+	/**
+	 * Whether to include the primary JSON-LD (schema.org) object of the page in the result as `jsonLd`.
+	 */
+	jsonLd?: boolean;
+
+	/**
+	 * Whether to check that the thumbnail is an image with a HEAD request, trying the other candidates if not.
+	 */
+	probeThumbnail?: boolean;
+
+	/**
+	 * The size (in pixels) of the icon to pick among the ones declared in the page and in the Web App Manifest.
+	 * If not set, the first icon declared in the page is used.
+	 */
+	iconSize?: number;
+
+	/**
+	 * Whether to fetch the Web App Manifest of the page for the site name, the icon and the theme color
+	 * if the page lacks them.
+	 */
+	manifest?: boolean;
+
+	/**
+	 * Whether to fetch the ActivityPub representation of the page, linked with
+	 * `<link rel="alternate" type="application/activity+json">` or returned by content negotiation,
+	 * and build the summary from it.
+	 */
+	fetchActivityPub?: boolean;
+
+	/**
+	 * Cache for summaries, keyed on the normalized url, lang and the options changing the result, such as rejectPrivateAddresses and rules.
+	 * Upstream Cache-Control and Expires are honored where present.
+	 */
+	cache?: SummalyCache | null;
+
+	/**
+	 * How long (in milliseconds) summaries are cached if the page does not specify it.
+	 */
+	cacheTtl?: number;
+
+	/**
+	 * How long (in milliseconds) failures are cached.
+	 */
+	cacheNegativeTtl?: number;
+
+	/**
+	 * How long (in milliseconds) expired summaries may be served while they are refreshed in the background.
+	 */
+	cacheStaleTtl?: number;
 };
 
+export type SummalyManyOptions = SummalyOptions & {
+	/**
+	 * Maximum number of the urls summarized at a time
+	 */
+	concurrency?: number;
+};
+
+export type SummalyServerOptions = SummalyManyOptions & {
+	/**
+	 * Maximum number of the urls in a request to `POST /batch`
+	 */
+	maxBatchSize?: number;
+
+	/**
+	 * Maximum size in bytes of the body of `POST /batch`
+	 */
+	maxBodySize?: number;
+
+	/**
+	 * Origins allowed to make cross-origin requests, or true to allow any origin
+	 */
+	cors?: boolean | string | string[];
+
+	/**
+	 * Cache-Control header of the responses with a summary
+	 */
+	cacheControl?: string;
+};
+
+/**
+ * The result of one of the urls passed to summalyMany
+ */
+export type SummalyBatchEntry = {
+	url: string;
+	result: SummalyResult;
+	error: null;
+} | {
+	url: string;
+	result: null;
+	error: Error;
+};
+
+const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
+const DEFAULT_CACHE_NEGATIVE_TTL = 5 * 60 * 1000;
+const DEFAULT_CACHE_STALE_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_MAX_BATCH_SIZE = 50;
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
 export const summalyDefaultOptions = {
 	lang: null,
 	followRedirects: true,
 	plugins: [],
+	rejectPrivateAddresses: false,
+	cache: null,
 } as SummalyOptions;
 
 /**
  * Summarize an web page
  */
 export const summaly = async (url: string, options?: SummalyOptions): Promise<SummalyResult> => {
-	const opts = Object.assign(summalyDefaultOptions, options);
+	const opts = Object.assign({}, summalyDefaultOptions, options);
+
+	if (!URL.canParse(url) || !['http:', 'https:'].includes(new URL(url).protocol)) {
+		throw new SummalyError('INVALID_URL', `Invalid url: ${url}`);
+	}
+
+	// Concurrent calls for the same page share one fetch
+	const requestKey = toKey([getCacheKey(url, opts.lang), { ...opts, signal: undefined }]);
+
+	if (opts.cache == null) {
+		const { result } = await coalesce(requestKey, signal => summarize(url, opts, signal), opts.signal);
+		return structuredClone(result);
+	}
 
-	const plugins = builtinPlugins.concat(opts.plugins || []);
+	const cache = opts.cache;
+	const key = getCacheKey(url, opts.lang, getCacheVariant(opts));
+	const entry = await cache.get(key).catch(() => undefined);
+	const now = Date.now();
+	if (entry && now < entry.staleUntil) {
+		if (entry.expires <= now) {
+			// Serve the stale entry while refreshing it in the background
+			coalesce(requestKey, signal => summarizeAndCache(url, opts, cache, key, signal)).catch(() => {});
+		}
+		return restoreCacheEntry(entry);
+	}
+
+	return structuredClone(await coalesce(requestKey, signal => summarizeAndCache(url, opts, cache, key, signal), opts.signal));
+};
+
+/**
+ * Summarize the web pages, settling each of them separately.
+ * The results are in the order of the urls.
+ */
+export const summalyMany = async (urls: string[], options?: SummalyManyOptions): Promise<SummalyBatchEntry[]> => {
+	const { concurrency = DEFAULT_BATCH_CONCURRENCY, ...opts } = options ?? {};
 
-	let actualUrl = url;
-	if (opts.followRedirects) {
+	return await mapConcurrent(urls, concurrency, async (url): Promise<SummalyBatchEntry> => {
 		try {
-			actualUrl = (await head(url)).response.url;
+			return { url, result: await summaly(url, opts), error: null };
 		} catch (e) {
-			actualUrl = url;
+			return { url, result: null, error: e instanceof Error ? e : new Error(String(e)) };
 		}
+	});
+};
+
+/**
+ * The options changing the result, other than lang
+ */
+const CACHE_VARIANT_OPTIONS: (keyof SummalyOptions)[] = [
+	'followRedirects',
+	'maxRedirects',
+	'plugins',
+	'rules',
+	'userAgent',
+	'fetch',
+	'contentLengthLimit',
+	'contentLengthRequired',
+	'rejectPrivateAddresses',
+	'allowedNetworks',
+	'deniedNetworks',
+	'oEmbedProviders',
+	'jsonLd',
+	'probeThumbnail',
+	'iconSize',
+	'manifest',
+	'fetchActivityPub',
+];
+
+/**
+ * Serialize the options changing the result, leaving out the defaults to keep the keys of the common case short.
+ * Plugins and fetch are compared by identity.
+ */
+function getCacheVariant(opts: SummalyOptions): string | undefined {
+	const defaults: SummalyOptions = summalyDefaultOptions;
+	const variant = toKey(Object.fromEntries(CACHE_VARIANT_OPTIONS
+		.filter(name => opts[name] !== undefined && opts[name] !== defaults[name])
+		.map(name => [name, opts[name]])));
+	return variant === '{}' ? undefined : variant;
+}
+
+async function summarizeAndCache(url: string, opts: SummalyOptions, cache: SummalyCache, key: string, signal: AbortSignal): Promise<SummalyResult> {
+	const now = Date.now();
+	try {
+		const { result, headers } = await summarize(url, opts, signal);
+		const freshness = headers ? getFreshness(headers) : {};
+		if (freshness) {
+			const expires = now + (freshness.ttl ?? opts.cacheTtl ?? DEFAULT_CACHE_TTL);
+			await cache.set(key, {
+				result: structuredClone(result),
+				error: null,
+				expires,
+				staleUntil: expires + (freshness.stale ?? opts.cacheStaleTtl ?? DEFAULT_CACHE_STALE_TTL),
+			}).catch(() => {});
+		}
+		return result;
+	} catch (e) {
+		// Blocked addresses depend on the options, and aborts and the deadline on the caller, rather than the page
+		if (e instanceof SummalyError && e.code !== 'BLOCKED_ADDRESS' && e.code !== 'ABORTED' && !deadlineErrors.has(e)) {
+			const expires = now + (opts.cacheNegativeTtl ?? DEFAULT_CACHE_NEGATIVE_TTL);
+			await cache.set(key, {
+				result: null,
+				error: {
+					code: e.code,
+					message: e.message,
+					statusCode: e instanceof StatusError ? e.statusCode : undefined,
+				},
+				expires,
+				staleUntil: expires,
+			}).catch(() => {});
+		}
+		throw e;
+	}
+}
+
+// The errors of the deadline of the calls, unlike the timeouts of the requests
+const deadlineErrors = new WeakSet<SummalyError>();
+
+async function summarize(url: string, opts: SummalyOptions, signal: AbortSignal): Promise<{ result: SummalyResult; headers: Headers | null; }> {
+	// The deadline aborts every request in progress
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal.reason);
+	signal.addEventListener('abort', onAbort);
+	const timeout = opts.timeout;
+	const timeoutHandle = timeout == null ? null : setTimeout(() => {
+		const error = new SummalyError('TIMEOUT', `Deadline exceeded (${timeout}ms)`);
+		deadlineErrors.add(error);
+		controller.abort(error);
+	}, timeout);
+	try {
+		// Stop waiting even if some work, such as a shared request, ignores the signal
+		return await abortable(summarizeWithSignal(url, opts, controller.signal), controller.signal);
+	} catch (e) {
+		// Plugins may throw their own errors on abort
+		if (controller.signal.aborted && controller.signal.reason instanceof SummalyError) throw controller.signal.reason;
+		throw e;
+	} finally {
+		if (timeoutHandle) clearTimeout(timeoutHandle);
+		signal.removeEventListener('abort', onAbort);
 	}
+}
 
-	const _url = new URL(actualUrl);
+async function summarizeWithSignal(url: string, opts: SummalyOptions, signal: AbortSignal): Promise<{ result: SummalyResult; headers: Headers | null; }> {
+	const rulePlugins = opts.rules ? await loadRules(opts.rules) : [];
+	const plugins = rulePlugins.concat(builtinPlugins, opts.plugins || []);
 
-	// Find matching plugin
 	const firstURL = new URL(url);
-	const firstMatch = plugins.filter(plugin => plugin.test(firstURL))[0];
-	const finalMatch = firstURL.href !== _url.href && plugins.filter(plugin => plugin.test(_url))[0];
 
 	// Get summary
 	const scrapingOptions: GeneralScrapingOptions = {
@@ -95,82 +407,383 @@ export const summaly = async (url: string, options?: SummalyOptions): Promise<Su
 		operationTimeout: opts.operationTimeout,
 		contentLengthLimit: opts.contentLengthLimit,
 		contentLengthRequired: opts.contentLengthRequired,
+		rejectPrivateAddresses: opts.rejectPrivateAddresses,
+		allowedNetworks: opts.allowedNetworks,
+		deniedNetworks: opts.deniedNetworks,
+		maxRedirects: opts.maxRedirects,
+		oEmbedProviders: opts.oEmbedProviders,
+		jsonLd: opts.jsonLd,
+		probeThumbnail: opts.probeThumbnail,
+		iconSize: opts.iconSize,
+		manifest: opts.manifest,
+		fetchActivityPub: opts.fetchActivityPub,
+		signal,
+		fetch: opts.fetch,
+		proxy: opts.proxy,
+		noProxy: opts.noProxy,
 	};
 
-	// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-	const summary = await (firstMatch ? firstMatch.summarize : finalMatch ? finalMatch.summarize : general)(_url, scrapingOptions);
+	// Find the plugins summarizing the page by themselves, up to the first one hooking into the general scraper
+	const findSummarizers = (target: URL) => {
+		const matches = findPlugins(plugins, target);
+		const end = matches.findIndex(plugin => !plugin.summarize);
+		return end === -1 ? matches : matches.slice(0, end);
+	};
 
-	if (summary == null) {
-		throw new Error('failed summarize');
-	}
+	// The plugins without summarize() hook into the general scraper
+	const scrape = (target: URL, options: GeneralScrapingOptions) =>
+		scrapeWithPlugins(findPlugins(plugins, target).filter(plugin => !plugin.summarize), target, options);
 
-	return Object.assign(summary, {
-		url: firstURL.href,
-	});
-};
+	// Each plugin may return null to leave the page to the next one, and then to the general scraper
+	let summary = await summarizeWithPlugins(findSummarizers(firstURL), firstURL, scrapingOptions);
+	let redirects: string[] = [];
+	let headers: Headers | null = null;
 
-export const fastify = function (fastify: FastifyInstance, options: SummalyOptions, done: (err?: Error) => void) {
-	fastify.get<{
-        Querystring: {
-				url?: string;
-				lang?: string;
-			};
-	}>('/', async (req, reply) => {
-		const url = req.query.url as string;
-		// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-		if (url == null) {
-			return reply.status(400).send({
-				error: 'url is required',
+	if (summary == null) {
+		let result: GeneralScrapingResult | null = null;
+		try {
+			// Stop before the redirect to a url a plugin summarizes, and let the plugin handle it instead
+			result = await scrape(firstURL, {
+				...scrapingOptions,
+				interceptRedirect: opts.followRedirects ? target => findSummarizers(target).length > 0 : undefined,
 			});
+		} catch (e) {
+			if (!(e instanceof RedirectInterception)) throw e;
+			redirects = e.redirects;
+			summary = await summarizeWithPlugins(findSummarizers(e.url), e.url, scrapingOptions);
+			if (summary == null) {
+				// Follow the rest of the redirects as usual
+				result = await scrape(e.url, {
+					...scrapingOptions,
+					maxRedirects: (opts.maxRedirects ?? DEFAULT_MAX_REDIRECTS) - e.redirects.length,
+				});
+			}
 		}
+		if (result) {
+			summary = result.summary;
+			redirects = [...redirects, ...result.redirects];
+			headers = result.headers;
+		}
+	}
 
-		try {
-			const summary = await summaly(url, {
-				lang: req.query.lang as string,
-				...options,
-			});
+	if (summary == null) {
+		throw new SummalyError('NO_METADATA', 'failed summarize');
+	}
+
+	return {
+		result: Object.assign(summary, {
+			url: firstURL.href,
+			redirects,
+		}),
+		headers,
+	};
+}
+
+/**
+ * Find the plugins matching the url, in the order to apply
+ */
+function findPlugins(plugins: SummalyPlugin[], url: URL): SummalyPlugin[] {
+	// Array.prototype.sort is stable
+	return plugins.filter(plugin => plugin.test(url)).sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+function toPluginError(e: unknown): SummalyError {
+	if (e instanceof SummalyError) return e;
+	return new SummalyError('PLUGIN_FAILED', `Plugin failed: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+}
 
-			return summary;
+/**
+ * Summarize the page with the first of the plugins returning a summary
+ */
+async function summarizeWithPlugins(plugins: SummalyPlugin[], url: URL, opts: GeneralScrapingOptions): Promise<Summary | null> {
+	for (const plugin of plugins) {
+		try {
+			const summary = await plugin.summarize?.(url, opts);
+			if (summary != null) return summary;
 		} catch (e) {
-			return reply.status(500).send({
-				error: e,
+			throw toPluginError(e);
+		}
+	}
+	return null;
+}
+
+/**
+ * Scrape the page with the general scraper, rewriting the url and transforming the summary with the plugins in order
+ */
+async function scrapeWithPlugins(plugins: SummalyPlugin[], url: URL, opts: GeneralScrapingOptions): Promise<GeneralScrapingResult> {
+	let target = url;
+	for (const plugin of plugins) {
+		if (plugin.rewriteUrl) {
+			target = await Promise.resolve(plugin.rewriteUrl(new URL(target.href))).catch(e => {
+				throw toPluginError(e);
 			});
 		}
+	}
+
+	const transforms = plugins.flatMap(plugin => plugin.transform ? [plugin.transform] : []);
+	return await scrapeGeneral(target, opts, transforms.length === 0 ? undefined : {
+		selectors: plugins.flatMap(plugin => plugin.selectors ?? []),
+		transform: async ($, summary, pageUrl) => {
+			let transformed = summary;
+			for (const transform of transforms) {
+				try {
+					transformed = await transform($, transformed, pageUrl);
+				} catch (e) {
+					throw toPluginError(e);
+				}
+			}
+			return transformed;
+		},
+	});
+}
+
+function getErrorResponse(e: unknown): { status: number; body: { error: { code: string; message: string; } } } {
+	if (e instanceof SummalyError) {
+		return {
+			status: getHttpStatus(e),
+			body: { error: { code: e.code, message: e.message } },
+		};
+	}
+	return {
+		status: 500,
+		body: { error: { code: 'INTERNAL_ERROR', message: e instanceof Error ? e.message : String(e) } },
+	};
+}
+
+/**
+ * Summarize the urls in the body of `POST /batch`, which is `{ "urls": [...], "lang": ... }`
+ */
+async function getBatchResponse(body: unknown, options: SummalyServerOptions, signal: AbortSignal): Promise<{ status: number; body: unknown; }> {
+	const { maxBatchSize = DEFAULT_MAX_BATCH_SIZE, ...opts } = options;
+	const { urls, lang } = (typeof body === 'object' && body !== null ? body : {}) as { urls?: unknown; lang?: unknown; };
+
+	if (!Array.isArray(urls) || !urls.every((url): url is string => typeof url === 'string')) {
+		return {
+			status: 400,
+			body: { error: { code: 'INVALID_REQUEST', message: 'urls must be an array of strings' } },
+		};
+	}
+	if (urls.length > maxBatchSize) {
+		return {
+			status: 413,
+			body: { error: { code: 'BATCH_TOO_LARGE', message: `Too many urls (${urls.length} > ${maxBatchSize})` } },
+		};
+	}
+
+	const entries = await summalyMany(urls, {
+		lang: typeof lang === 'string' ? lang : null,
+		...opts,
+		signal,
 	});
 
-	done();
+	return {
+		status: 200,
+		body: entries.map(({ url, result, error }) => {
+			if (error) {
+				const { status, body } = getErrorResponse(error);
+				return { url, status, ...body };
+			}
+			return { url, status: 200, result };
+		}),
+	};
+}
+
+// Returned by HandlerRequest.body() instead of the body larger than maxBodySize
+const BODY_TOO_LARGE = Symbol('BODY_TOO_LARGE');
+
+type HandlerRequest = {
+	method: string;
+	path: '/' | '/batch';
+	query: URLSearchParams;
+	origin: string | null;
+	body: (maxSize: number) => Promise<unknown>;
+	signal: AbortSignal;
 };
 
-export const fetch = async function(req: Request): Promise<Response> {
-	const query = new URL(req.url).searchParams;
-	const url = query.get('url');
+type HandlerResponse = {
+	status: number;
+	headers: Record<string, string>;
+	body: unknown;
+};
+
+const ALLOWED_METHODS = {
+	'/': 'GET, HEAD, OPTIONS',
+	'/batch': 'POST, OPTIONS',
+} as const;
+
+function getCorsHeaders(origin: string | null, cors: SummalyServerOptions['cors']): Record<string, string> {
+	if (!cors) return {};
+	if (cors === true || cors === '*') {
+		return { 'access-control-allow-origin': '*' };
+	}
+	const origins = typeof cors === 'string' ? [cors] : cors;
+	return origin !== null && origins.includes(origin)
+		? { 'access-control-allow-origin': origin, 'vary': 'Origin' }
+		: { 'vary': 'Origin' };
+}
+
+/**
+ * Handle a request to the HTTP handlers, which are the Fastify plugin and the fetch handler
+ */
+async function handleRequest(req: HandlerRequest, options: SummalyServerOptions): Promise<HandlerResponse> {
+	const headers = getCorsHeaders(req.origin, options.cors);
+	const allow = ALLOWED_METHODS[req.path];
+
+	if (req.method === 'OPTIONS') {
+		return {
+			status: 204,
+			headers: {
+				...headers,
+				'allow': allow,
+				...(options.cors ? {
+					'access-control-allow-methods': allow,
+					'access-control-allow-headers': 'content-type',
+					'access-control-max-age': '86400',
+				} : {}),
+			},
+			body: null,
+		};
+	}
+
+	if (!allow.split(', ').includes(req.method)) {
+		return {
+			status: 405,
+			headers: { ...headers, allow },
+			body: { error: { code: 'METHOD_NOT_ALLOWED', message: `${req.method} is not allowed` } },
+		};
+	}
+
+	if (req.path === '/batch') {
+		const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+		const requestBody = await req.body(maxBodySize);
+		if (requestBody === BODY_TOO_LARGE) {
+			return {
+				status: 413,
+				headers,
+				body: { error: { code: 'BATCH_TOO_LARGE', message: `The body is larger than ${maxBodySize} bytes` } },
+			};
+		}
+		const { status, body } = await getBatchResponse(requestBody, options, req.signal);
+		return { status, headers, body };
+	}
+
+	const url = req.query.get('url');
 	if (url == null) {
-		return Response.json({
-			error: 'url is required',
-		}, {
+		return {
 			status: 400,
-		});
+			headers,
+			body: { error: { code: 'INVALID_URL', message: 'url is required' } },
+		};
 	}
-  
+
 	try {
 		const summary = await summaly(url, {
-			lang: query.get('lang'),
+			lang: req.query.get('lang'),
+			...options,
+			signal: req.signal,
 		});
-  
-		return Response.json(summary);
+
+		return {
+			status: 200,
+			headers: options.cacheControl ? { ...headers, 'cache-control': options.cacheControl } : headers,
+			body: summary,
+		};
 	} catch (e) {
-		console.error(e);
-		return Response.json({
-			error: e,
-		}, {
-			status: 500,
+		const { status, body } = getErrorResponse(e);
+		return { status, headers, body };
+	}
+}
+
+export const fastify = function (fastify: FastifyInstance, options: SummalyServerOptions, done: (err?: Error) => void) {
+	for (const path of ['/', '/batch'] as const) {
+		// Fastify rejects the larger bodies by itself before parsing
+		fastify.all(path, { bodyLimit: options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE }, async (req, reply) => {
+			// Cancel the work when the client disconnects
+			const controller = new AbortController();
+			const onClose = () => {
+				if (!reply.raw.writableFinished) controller.abort();
+			};
+			reply.raw.on('close', onClose);
+
+			try {
+				const { status, headers, body } = await handleRequest({
+					method: req.method,
+					path,
+					query: new URLSearchParams(req.query as Record<string, string>),
+					origin: req.headers.origin ?? null,
+					body: async () => req.body,
+					signal: controller.signal,
+				}, options);
+				return reply.status(status).headers(headers).send(body ?? undefined);
+			} finally {
+				reply.raw.off('close', onClose);
+			}
 		});
 	}
+
+	// Fail at startup if the rules are malformed
+	if (options.rules) {
+		loadRules(options.rules).then(() => done(), done);
+	} else {
+		done();
+	}
 };
 
+/**
+ * Parse the body as JSON, or null if malformed, without reading more than maxSize bytes
+ */
+async function readJson(req: Request, maxSize: number): Promise<unknown> {
+	if (Number(req.headers.get('content-length')) > maxSize) return BODY_TOO_LARGE;
+	if (!req.body) return null;
+
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	try {
+		const reader = req.body.getReader();
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			size += value.byteLength;
+			if (size > maxSize) {
+				await reader.cancel();
+				return BODY_TOO_LARGE;
+			}
+			chunks.push(value);
+		}
+		return JSON.parse(await new Blob(chunks).text());
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Create a handler of the Fetch API, for Bun, Deno and Workers, which takes the same options as the Fastify plugin.
+ * `POST /batch` summarizes many pages at once and any other path summarizes one page.
+ */
+export function createFetchHandler(options: SummalyServerOptions = {}): (req: Request) => Promise<Response> {
+	return async req => {
+		const { pathname, searchParams } = new URL(req.url);
+		const { status, headers, body } = await handleRequest({
+			method: req.method,
+			path: pathname === '/batch' ? '/batch' : '/',
+			query: searchParams,
+			origin: req.headers.get('origin'),
+			body: maxSize => readJson(req, maxSize),
+			signal: req.signal,
+		}, options);
+
+		if (body == null || req.method === 'HEAD') {
+			return new Response(null, { status, headers });
+		}
+		return Response.json(body, { status, headers });
+	};
+}
+
+export const fetch = createFetchHandler();
+
 const fastifetch: typeof fastify & { fetch: typeof fetch } = Object.assign((
 	fastify_: FastifyInstance,
-	options: SummalyOptions,
+	options: SummalyServerOptions,
 	done: (err?: Error) => void,
 ) => fastify(fastify_, options, done), {
 	fetch,
@@ -1,7 +1,36 @@
 import Summary from './summary.js';
+import type * as cheerio from 'cheerio';
 import { GeneralScrapingOptions } from '@/general';
 
 export interface SummalyPlugin {
 	test: (url: URL) => boolean;
-	summarize: (url: URL, opts?: GeneralScrapingOptions) => Promise<Summary | null>;
+
+	/**
+	 * Summarize the page by itself.
+	 * If null is returned, the next matching plugin implementing this summarizes the page.
+	 * If not implemented, or none of them returns a summary, the general scraper summarizes the page with the hooks below.
+	 */
+	summarize?: (url: URL, opts?: GeneralScrapingOptions) => Promise<Summary | null>;
+
+	/**
+	 * Rewrite the url before the general scraper fetches the page
+	 */
+	rewriteUrl?: (url: URL) => URL | Promise<URL>;
+
+	/**
+	 * The CSS selectors of the elements transform() reads, which are otherwise stripped before parsing.
+	 * Select them with selectParsed($, selector) as the selectors may not match the parsed page.
+	 */
+	selectors?: string[];
+
+	/**
+	 * Post-process the summary of the general scraper, for HTML pages only
+	 */
+	transform?: ($: cheerio.CheerioAPI, summary: Summary, url: URL) => Summary | Promise<Summary>;
+
+	/**
+	 * Plugins matching the url are applied in descending order of the priority, and in the order of the list for the same priority.
+	 * 0 by default.
+	 */
+	priority?: number;
 }
@@ -0,0 +1,166 @@
+import * as cheerio from 'cheerio';
+import debug from 'debug';
+import { get } from '../utils/got.js';
+import clip from '../utils/clip.js';
+import type { RequestOptions } from '../utils/got.js';
+import type { default as Summary, Image } from '../summary.js';
+
+const log = debug('summaly:plugins:activitypub');
+
+/**
+ * This is not a SummalyPlugin as ActivityPub objects can't be told from their urls.
+ * The general scraper uses it when the page links to its ActivityPub representation
+ * or returns it by content negotiation.
+ */
+
+export const ACTIVITY_PUB_TYPE_FILTER = /^application\/(activity\+json|ld\+json)/;
+
+const ACCEPT = 'application/activity+json, application/ld+json; profile="https://www.w3.org/ns/activitystreams"';
+
+const ACTOR_TYPES = ['Person', 'Service', 'Group', 'Application', 'Organization'];
+
+type ApObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is ApObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function first(value: unknown): unknown {
+	return Array.isArray(value) ? value[0] : value;
+}
+
+function toText(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function getId(value: unknown): string | null {
+	const object = first(value);
+	return isObject(object) ? toText(object.id) : toText(object);
+}
+
+function getUrl(value: unknown): string | null {
+	const object = first(value);
+	if (isObject(object)) {
+		return toText(object.href) ?? getUrl(object.url);
+	}
+	const url = toText(object);
+	try {
+		return url && /^https?:$/.test(new URL(url).protocol) ? url : null;
+	} catch {
+		return null;
+	}
+}
+
+function isSameOrigin(a: string, b: string): boolean {
+	try {
+		return new URL(a).origin === new URL(b).origin;
+	} catch {
+		return false;
+	}
+}
+
+function isType(object: ApObject, types: string[]): boolean {
+	return (Array.isArray(object.type) ? object.type : [object.type]).some(type => typeof type === 'string' && types.includes(type));
+}
+
+function htmlToText(html: string): string {
+	const $ = cheerio.load(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>\s*<p[^>]*>/gi, '\n\n'));
+	return $.root().text().trim();
+}
+
+/**
+ * Parse the ActivityStreams object, which must be served from the origin of its id.
+ */
+export function parseActivityPubObject(body: string, url: string): ApObject | null {
+	let object: unknown;
+	try {
+		object = JSON.parse(body);
+	} catch {
+		return null;
+	}
+	if (!isObject(object) || typeof object.type !== 'string' && !Array.isArray(object.type)) {
+		return null;
+	}
+
+	const id = toText(object.id);
+	if (!id || !isSameOrigin(id, url)) {
+		log(`id ${id} is not of the origin of ${url}`);
+		return null;
+	}
+
+	return object;
+}
+
+export async function getActivityPubObject(url: string, opts: RequestOptions): Promise<ApObject | null> {
+	const body = await get(url, opts, { accept: ACCEPT }).catch(e => {
+		log(`failed to fetch ${url}: ${e}`);
+		return null;
+	});
+	return body === null ? null : parseActivityPubObject(body, url);
+}
+
+/**
+ * Build the summary from the ActivityStreams object: the actor is the site,
+ * and the content is the description.
+ */
+export async function summarize(object: ApObject, opts: RequestOptions): Promise<Summary> {
+	const isActor = isType(object, ACTOR_TYPES);
+
+	// Only the actors of the same server are trusted
+	const attributedTo = first(object.attributedTo);
+	const actorId = getId(attributedTo);
+	const actor = isActor ? object :
+		!actorId || !isSameOrigin(actorId, object.id as string) ? null :
+		isObject(attributedTo) ? attributedTo :
+		await getActivityPubObject(actorId, opts);
+
+	const actorName = actor ? toText(actor.name) ?? toText(actor.preferredUsername) : null;
+	const actorHandle = actor && toText(actor.preferredUsername) && toText(actor.id)
+		? `@${actor.preferredUsername}@${new URL(actor.id as string).host}`
+		: null;
+
+	const images: Image[] = (Array.isArray(object.attachment) ? object.attachment : [object.attachment])
+		.filter(isObject)
+		.filter(attachment => isType(attachment, ['Image', 'Document']) && (toText(attachment.mediaType)?.startsWith('image/') ?? isType(attachment, ['Image'])))
+		.flatMap(attachment => {
+			const url = getUrl(attachment.url);
+			if (!url) return [];
+			return [{
+				url,
+				width: typeof attachment.width === 'number' ? attachment.width : null,
+				height: typeof attachment.height === 'number' ? attachment.height : null,
+				alt: toText(attachment.name),
+				type: toText(attachment.mediaType),
+			}];
+		});
+
+	const content = toText(object.summary) ?? toText(object.content);
+	const avatar = actor ? getUrl(isObject(actor.icon) ? actor.icon.url : actor.icon) : null;
+	const header = isActor ? getUrl(isObject(object.image) ? object.image.url : object.image) : null;
+
+	const actorTitle = actorName && actorHandle ? `${actorName} (${actorHandle})` : actorName ?? actorHandle;
+
+	return {
+		title: isActor ? actorTitle : toText(object.name) ?? actorTitle,
+		icon: avatar,
+		description: content ? clip(htmlToText(content), 300) : null,
+		thumbnail: images.at(0)?.url ?? header,
+		thumbnailWidth: images.at(0)?.width ?? null,
+		thumbnailHeight: images.at(0)?.height ?? null,
+		thumbnailAlt: images.at(0)?.alt ?? null,
+		images,
+		author: actorName,
+		authorUrl: actor ? getUrl(actor.url) ?? getId(actor) : null,
+		publishedTime: toText(object.published),
+		modifiedTime: toText(object.updated),
+		sitename: actorName,
+		player: {
+			url: null,
+			width: null,
+			height: null,
+			allow: [],
+		},
+		sensitive: object.sensitive === true,
+		activityPub: toText(object.id),
+	};
+}
@@ -1,34 +1,119 @@
-import { scpaping } from '../utils/got.js';
-import summary from '../summary.js';
+import debug from 'debug';
+import { scpaping, selectParsed } from '../utils/got.js';
+import { GeneralScrapingOptions, getScrapingOptions } from '../general.js';
+import clip from '../utils/clip.js';
+import type { default as Summary, Product } from '../summary.js';
+
+const log = debug('summaly:plugins:amazon');
+
+/**
+ * The top-level domains of the marketplaces
+ * See https://sellercentral.amazon.com/help/hub/reference/external/G201468400
+ */
+const MARKETPLACES = [
+	'com',
+	'ca',
+	'com.mx',
+	'com.br',
+	'co.uk',
+	'de',
+	'fr',
+	'it',
+	'es',
+	'nl',
+	'se',
+	'pl',
+	'com.be',
+	'com.tr',
+	'ae',
+	'sa',
+	'eg',
+	'in',
+	'co.jp',
+	'sg',
+	'com.au',
+	'cn',
+];
+
+/**
+ * The hosts of the short links, which redirect to the marketplaces
+ */
+const SHORT_LINK_HOSTS = ['amzn.to', 'amzn.asia', 'amzn.eu', 'a.co'];
+
+/**
+ * The elements of the product page to keep while parsing
+ */
+const SELECTORS = {
+	title: '#title',
+	description: '#productDescription',
+	image: '#landingImage',
+	availability: '#availability',
+	rating: '#acrPopover',
+	ratingCount: '#acrCustomerReviewText',
+	prices: [
+		'#corePrice_feature_div .a-offscreen',
+		'#corePriceDisplay_desktop_feature_div .a-offscreen',
+		'#price_inside_buybox',
+	],
+};
+
+const ASIN = /\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|o\/ASIN)\/([A-Z0-9]{10})(?:[/?]|$)/i;
+
+/**
+ * Get the top-level domain of the marketplace, e.g. `co.jp` for `www.amazon.co.jp`
+ */
+function getMarketplace(url: URL): string | null {
+	const match = /^(?:www\.)?amazon\.(.+)$/.exec(url.hostname);
+	return match && MARKETPLACES.includes(match[1]) ? match[1] : null;
+}
 
 export function test(url: URL): boolean {
-	return url.hostname === 'www.amazon.com' ||
-	url.hostname === 'www.amazon.co.jp' ||
-	url.hostname === 'www.amazon.ca' ||
-	url.hostname === 'www.amazon.com.br' ||
-	url.hostname === 'www.amazon.com.mx' ||
-	url.hostname === 'www.amazon.co.uk' ||
-	url.hostname === 'www.amazon.de' ||
-	url.hostname === 'www.amazon.fr' ||
-	url.hostname === 'www.amazon.it' ||
-	url.hostname === 'www.amazon.es' ||
-	url.hostname === 'www.amazon.nl' ||
-	url.hostname === 'www.amazon.cn' ||
-	url.hostname === 'www.amazon.in' ||
-	url.hostname === 'www.amazon.au';
+	return getMarketplace(url) !== null || SHORT_LINK_HOSTS.includes(url.hostname);
+}
+
+/**
+ * Get the url of the product without the title slug and the tracking parameters
+ */
+function getCanonicalUrl(url: URL): { asin: string; url: string } | null {
+	const marketplace = getMarketplace(url);
+	const asin = ASIN.exec(url.pathname)?.[1]?.toUpperCase();
+	return marketplace && asin ? { asin, url: `https://www.amazon.${marketplace}/dp/${asin}` } : null;
 }
 
-export async function summarize(url: URL): Promise<summary> {
-	const res = await scpaping(url.href);
+function toText(value: string | undefined): string | null {
+	const text = value?.replace(/\s+/g, ' ').trim();
+	return text ? text : null;
+}
+
+/**
+ * Parse a number such as `1,234` or `1.234` with the grouping separators
+ */
+function toCount(value: string | null): number | null {
+	const digits = value?.match(/\d[\d.,\s]*/)?.[0].replace(/\D/g, '');
+	return digits ? parseInt(digits) : null;
+}
+
+export async function summarize(url: URL, opts?: GeneralScrapingOptions): Promise<Summary> {
+	// Short links are resolved by following the redirects
+	const canonical = getCanonicalUrl(url);
+	const res = await scpaping(canonical?.url ?? url.href, getScrapingOptions(opts), Object.values(SELECTORS).flat());
 	const $ = res.$;
+	const select = (selector: string) => selectParsed($, selector);
+	const resolved = new URL(res.response.response.url);
+	const product = canonical ?? getCanonicalUrl(resolved);
 
-	const title = $('#title').text();
+	const title =
+		toText(select(SELECTORS.title).text()) ??
+		toText($('meta[property="og:title"]').attr('content')) ??
+		toText($('title').text());
 
 	const description =
-		$('#productDescription').text() ||
-		$('meta[name="description"]').attr('content');
+		toText(select(SELECTORS.description).text()) ??
+		toText($('meta[name="description"]').attr('content'));
 
-	const thumbnail: string | undefined = $('#landingImage').attr('src');
+	const thumbnail =
+		toText(select(SELECTORS.image).attr('data-old-hires')) ??
+		toText(select(SELECTORS.image).attr('src'));
 
 	const playerUrl =
 		$('meta[property="twitter:player"]').attr('content') ||
@@ -42,11 +127,29 @@ export async function summarize(url: URL): Promise<summary> {
 		$('meta[property="twitter:player:height"]').attr('content') ||
 		$('meta[name="twitter:player:height"]').attr('content');
 
+	// e.g. "4.3 out of 5 stars", "5つ星のうち4.3", "4,3 von 5 Sternen"
+	const rating = select(SELECTORS.rating).attr('title')?.match(/\d[.,]\d/)?.[0].replace(',', '.');
+
+	const price = SELECTORS.prices.reduce<string | null>((found, selector) => found ?? toText(select(selector).first().text()), null);
+
+	const productInfo: Product | null = product ? {
+		id: product.asin,
+		url: product.url,
+		price,
+		availability: toText(select(SELECTORS.availability).text()),
+		rating: rating ? parseFloat(rating) : null,
+		ratingCount: toCount(toText(select(SELECTORS.ratingCount).text())),
+	} : null;
+
+	log(`product is ${JSON.stringify(productInfo)}`);
+
+	const marketplace = getMarketplace(resolved) ?? 'com';
+
 	return {
-		title: title ? title.trim() : null,
-		icon: 'https://www.amazon.com/favicon.ico',
-		description: description ? description.trim() : null,
-		thumbnail: thumbnail ? thumbnail.trim() : null,
+		title: title ? clip(title, 100) : null,
+		icon: `https://www.amazon.${marketplace}/favicon.ico`,
+		description: description ? clip(description, 300) : null,
+		thumbnail,
 		player: {
 			url: playerUrl || null,
 			width: playerWidth ? parseInt(playerWidth) : null,
@@ -55,5 +158,6 @@ export async function summarize(url: URL): Promise<summary> {
 		},
 		sitename: 'Amazon',
 		activityPub: null,
+		product: productInfo,
 	};
 }
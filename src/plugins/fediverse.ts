@@ -0,0 +1,322 @@
+import * as cheerio from 'cheerio';
+import debug from 'debug';
+import { GeneralScrapingOptions, getRequestOptions } from '../general.js';
+import { get, post } from '../utils/got.js';
+import clip from '../utils/clip.js';
+import { abortable } from '../utils/abortable.js';
+import type { RequestOptions } from '../utils/got.js';
+import type { default as Summary, Image, Player } from '../summary.js';
+
+const log = debug('summaly:plugins:fediverse');
+
+type Software = 'mastodon' | 'misskey';
+
+type NodeInfo = {
+	software: Software | null;
+	nodeName: string | null;
+};
+
+type Target =
+	| { type: 'status'; id: string }
+	| { type: 'profile'; username: string; host: string | null };
+
+// Forks which have the same API
+const MASTODON_COMPATIBLE = ['mastodon', 'pleroma', 'akkoma', 'hometown', 'fedibird', 'glitchcafe', 'gotosocial'];
+const MISSKEY_COMPATIBLE = ['misskey', 'calckey', 'firefish', 'sharkey', 'foundkey', 'cherrypick', 'iceshrimp', 'catodon', 'meisskey'];
+
+const NODEINFO_TTL = 60 * 60 * 1000;
+// Retry soon after the failures, which may be transient
+const NODEINFO_FAILURE_TTL = 60 * 1000;
+const NODEINFO_CACHE_SIZE = 1000;
+const nodeInfoCache = new Map<string, { nodeInfo: Promise<NodeInfo>; expires: number }>();
+
+const STATUS_PATTERNS = [
+	// Mastodon
+	/^\/@[\w.-]+(?:@[\w.-]+)?\/(\w+)\/?$/,
+	/^\/users\/[\w.-]+\/statuses\/(\w+)\/?$/,
+	// Pleroma
+	/^\/notice\/(\w+)\/?$/,
+	// Misskey
+	/^\/notes\/(\w+)\/?$/,
+];
+
+const PROFILE_PATTERN = /^\/@([\w.-]+)(?:@([\w.-]+))?\/?$/;
+
+function getTarget(url: URL): Target | null {
+	for (const pattern of STATUS_PATTERNS) {
+		const match = pattern.exec(url.pathname);
+		if (match) return { type: 'status', id: match[1] };
+	}
+	const profile = PROFILE_PATTERN.exec(url.pathname);
+	if (profile) return { type: 'profile', username: profile[1], host: profile[2] || null };
+	return null;
+}
+
+export function test(url: URL): boolean {
+	return getTarget(url) !== null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The object, or an empty one to read no properties from
+ */
+function asObject(value: unknown): JsonObject {
+	return isObject(value) ? value : {};
+}
+
+function toObjects(value: unknown): JsonObject[] {
+	return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function toText(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function toNumber(value: unknown): number | null {
+	return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function htmlToText(html: string): string {
+	const $ = cheerio.load(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>\s*<p[^>]*>/gi, '\n\n'));
+	return $.root().text().trim();
+}
+
+function parseObject(json: string, url: string): JsonObject {
+	const object: unknown = JSON.parse(json);
+	if (!isObject(object)) {
+		throw new Error(`${url} did not return an object`);
+	}
+	return object;
+}
+
+async function getJson(url: string, opts: RequestOptions): Promise<JsonObject> {
+	return parseObject(await get(url, opts, { accept: 'application/json' }), url);
+}
+
+async function postJson(url: string, body: unknown, opts: RequestOptions): Promise<JsonObject> {
+	return parseObject(await post(url, body, opts), url);
+}
+
+/**
+ * Detect the software of the server with NodeInfo
+ * See https://nodeinfo.diaspora.software/protocol
+ */
+async function fetchNodeInfo(origin: string, opts: RequestOptions): Promise<NodeInfo> {
+	const wellKnown = await getJson(`${origin}/.well-known/nodeinfo`, opts);
+	const link = toObjects(wellKnown.links)
+		.flatMap(link => typeof link.rel === 'string' && link.rel.startsWith('http://nodeinfo.diaspora.software/ns/schema/') && typeof link.href === 'string'
+			? [{ rel: link.rel, href: link.href }]
+			: [])
+		.sort((a, b) => b.rel.localeCompare(a.rel))
+		.at(0);
+	if (!link || new URL(link.href).origin !== origin) {
+		return { software: null, nodeName: null };
+	}
+
+	const nodeInfo = await getJson(link.href, opts);
+	const name = toText(asObject(nodeInfo.software).name)?.toLowerCase() ?? '';
+	return {
+		software: MASTODON_COMPATIBLE.includes(name) ? 'mastodon' : MISSKEY_COMPATIBLE.includes(name) ? 'misskey' : null,
+		nodeName: toText(asObject(nodeInfo.metadata).nodeName),
+	};
+}
+
+async function getNodeInfo(origin: string, opts: RequestOptions): Promise<NodeInfo> {
+	const cached = nodeInfoCache.get(origin);
+	if (cached && Date.now() < cached.expires) {
+		return await abortable(cached.nodeInfo, opts.signal);
+	}
+
+	// Not cancelled with the signal of the caller as it is shared by the calls,
+	// though the caller stops waiting for it
+	const nodeInfo = fetchNodeInfo(origin, { ...opts, signal: undefined }).catch(e => {
+		log(`failed to get nodeinfo of ${origin}: ${e}`);
+		const entry = nodeInfoCache.get(origin);
+		if (entry?.nodeInfo === nodeInfo) entry.expires = Date.now() + NODEINFO_FAILURE_TTL;
+		return { software: null, nodeName: null };
+	});
+	nodeInfoCache.delete(origin);
+	nodeInfoCache.set(origin, { nodeInfo, expires: Date.now() + NODEINFO_TTL });
+	while (nodeInfoCache.size > NODEINFO_CACHE_SIZE) {
+		nodeInfoCache.delete(nodeInfoCache.keys().next().value as string);
+	}
+	return await abortable(nodeInfo, opts.signal);
+}
+
+function emptyPlayer(): Player {
+	return {
+		url: null,
+		width: null,
+		height: null,
+		allow: [],
+	};
+}
+
+function toPlayer(url: string | null, type: string, width: number | null, height: number | null): Player {
+	return url ? { url, width, height, allow: ['autoplay', 'fullscreen'], mediaType: type } : emptyPlayer();
+}
+
+function buildSummary(summary: Omit<Summary, 'thumbnail' | 'thumbnailWidth' | 'thumbnailHeight' | 'thumbnailAlt'> & { images: Image[] }): Summary {
+	const thumbnail = summary.images.at(0);
+	return {
+		...summary,
+		thumbnail: thumbnail?.url ?? null,
+		thumbnailWidth: thumbnail?.width ?? null,
+		thumbnailHeight: thumbnail?.height ?? null,
+		thumbnailAlt: thumbnail?.alt ?? null,
+	};
+}
+
+function getMastodonTitle(account: JsonObject): string {
+	return `${toText(account.display_name) ?? toText(account.username) ?? ''} (@${toText(account.acct) ?? ''})`;
+}
+
+async function summarizeMastodon(origin: string, target: Target, nodeName: string | null, opts: RequestOptions): Promise<Summary> {
+	const siteName = nodeName ?? toText((await getJson(`${origin}/api/v1/instance`, opts).catch(() => null))?.title) ?? new URL(origin).host;
+
+	if (target.type === 'profile') {
+		const acct = target.host ? `${target.username}@${target.host}` : target.username;
+		const account = await getJson(`${origin}/api/v1/accounts/lookup?acct=${encodeURIComponent(acct)}`, opts);
+		const header = toText(account.header);
+		const note = toText(account.note);
+		return buildSummary({
+			title: getMastodonTitle(account),
+			icon: toText(account.avatar),
+			description: note ? clip(htmlToText(note), 300) : null,
+			images: header && !header.endsWith('/headers/original/missing.png') ? [{ url: header, width: null, height: null, alt: null, type: null }] : [],
+			author: toText(account.display_name) ?? toText(account.username),
+			authorUrl: toText(account.url),
+			sitename: siteName,
+			player: emptyPlayer(),
+			sensitive: false,
+			activityPub: toText(account.uri),
+		});
+	}
+
+	const status = await getJson(`${origin}/api/v1/statuses/${encodeURIComponent(target.id)}`, opts);
+	const account = asObject(status.account);
+	const attachments = toObjects(status.media_attachments);
+	const images: Image[] = attachments.flatMap(attachment => {
+		const url = toText(attachment.url);
+		if (attachment.type !== 'image' || !url) return [];
+		const original = asObject(asObject(attachment.meta).original);
+		return [{
+			url,
+			width: toNumber(original.width),
+			height: toNumber(original.height),
+			alt: toText(attachment.description),
+			type: null,
+		}];
+	});
+	const video = attachments.find(attachment => attachment.type === 'video' || attachment.type === 'gifv' || attachment.type === 'audio');
+	const videoSize = asObject(asObject(video?.meta).original);
+	const cw = toText(status.spoiler_text);
+	const content = toText(status.content);
+
+	return buildSummary({
+		title: getMastodonTitle(account),
+		icon: toText(account.avatar),
+		description: cw ?? (content ? clip(htmlToText(content), 300) : null),
+		images,
+		author: toText(account.display_name) ?? toText(account.username),
+		authorUrl: toText(account.url),
+		publishedTime: toText(status.created_at),
+		modifiedTime: toText(status.edited_at),
+		sitename: siteName,
+		player: video
+			? toPlayer(toText(video.url), video.type === 'audio' ? 'audio/*' : 'video/*', toNumber(videoSize.width), toNumber(videoSize.height))
+			: emptyPlayer(),
+		sensitive: cw !== null || status.sensitive === true,
+		activityPub: toText(status.uri),
+	});
+}
+
+function getMisskeyHandle(user: JsonObject): string {
+	const host = toText(user.host);
+	return `@${toText(user.username) ?? ''}${host ? `@${host}` : ''}`;
+}
+
+async function summarizeMisskey(origin: string, target: Target, nodeName: string | null, opts: RequestOptions): Promise<Summary> {
+	const siteName = nodeName ?? toText((await postJson(`${origin}/api/meta`, { detail: false }, opts).catch(() => null))?.name) ?? new URL(origin).host;
+
+	if (target.type === 'profile') {
+		const user = await postJson(`${origin}/api/users/show`, { username: target.username, host: target.host }, opts);
+		const banner = toText(user.bannerUrl);
+		const description = toText(user.description);
+		const id = toText(user.id);
+		return buildSummary({
+			title: `${toText(user.name) ?? toText(user.username) ?? ''} (${getMisskeyHandle(user)})`,
+			icon: toText(user.avatarUrl),
+			description: description ? clip(description, 300) : null,
+			images: banner ? [{ url: banner, width: null, height: null, alt: null, type: null }] : [],
+			author: toText(user.name) ?? toText(user.username),
+			authorUrl: `${origin}/${getMisskeyHandle(user)}`,
+			sitename: siteName,
+			player: emptyPlayer(),
+			sensitive: false,
+			activityPub: toText(user.uri) ?? (id ? `${origin}/users/${id}` : null),
+		});
+	}
+
+	const note = await postJson(`${origin}/api/notes/show`, { noteId: target.id }, opts);
+	const user = isObject(note.user) ? note.user : null;
+	const files = toObjects(note.files).filter((file): file is JsonObject & { type: string } => typeof file.type === 'string');
+	const images: Image[] = files.flatMap(file => {
+		const url = toText(file.url);
+		if (!file.type.startsWith('image/') || !url) return [];
+		const properties = asObject(file.properties);
+		return [{
+			url,
+			width: toNumber(properties.width),
+			height: toNumber(properties.height),
+			alt: toText(file.comment),
+			type: file.type,
+		}];
+	});
+	const media = files.find(file => /^(video|audio)\//.test(file.type));
+	const mediaSize = asObject(media?.properties);
+	const cw = toText(note.cw);
+	const text = toText(note.text);
+	const id = toText(note.id);
+
+	return buildSummary({
+		title: `${toText(user?.name) ?? toText(user?.username) ?? ''} (${getMisskeyHandle(user ?? {})})`,
+		icon: toText(user?.avatarUrl),
+		description: cw ?? (text ? clip(text, 300) : null),
+		images,
+		author: toText(user?.name) ?? toText(user?.username),
+		authorUrl: user ? `${origin}/${getMisskeyHandle(user)}` : null,
+		publishedTime: toText(note.createdAt),
+		modifiedTime: toText(note.updatedAt),
+		sitename: siteName,
+		player: media
+			? toPlayer(toText(media.url), media.type, toNumber(mediaSize.width), toNumber(mediaSize.height))
+			: emptyPlayer(),
+		sensitive: cw !== null || files.some(file => file.isSensitive === true),
+		activityPub: toText(note.uri) ?? (id ? `${origin}/notes/${id}` : null),
+	});
+}
+
+/**
+ * Summarize with the API of the server, or return null to leave it to the general scraper if it is not a Fediverse server
+ */
+export async function summarize(url: URL, opts?: GeneralScrapingOptions): Promise<Summary | null> {
+	// test() guarantees that it is a status or a profile
+	const target = getTarget(url) as Target;
+	const requestOptions = getRequestOptions(opts);
+	const { software, nodeName } = await getNodeInfo(url.origin, requestOptions);
+	if (!software) return null;
+
+	try {
+		return await (software === 'mastodon' ? summarizeMastodon : summarizeMisskey)(url.origin, target, nodeName, requestOptions);
+	} catch (e) {
+		// The API may not be public
+		log(`failed to summarize ${url.href} with the ${software} API: ${e}`);
+		return null;
+	}
+}
@@ -1,10 +1,14 @@
 import * as amazon from './amazon.js';
 import * as wikipedia from './wikipedia.js';
 import * as branchIoDeeplinks from './branchio-deeplinks.js';
+import * as youtube from './youtube.js';
+import * as fediverse from './fediverse.js';
 import { SummalyPlugin } from '@/iplugin.js';
 
 export const plugins: SummalyPlugin[] = [
 	amazon,
 	wikipedia,
 	branchIoDeeplinks,
+	youtube,
+	fediverse,
 ];
@@ -1,47 +1,170 @@
+import * as cheerio from 'cheerio';
 import debug from 'debug';
+import general, { GeneralScrapingOptions, getRequestOptions } from '../general.js';
 import { get } from '../utils/got.js';
-import summary from '../summary.js';
 import clip from './../utils/clip.js';
+import type { RequestOptions } from '../utils/got.js';
+import type Summary from '../summary.js';
 
 const log = debug('summaly:plugins:wikipedia');
 
+const PROJECTS: Record<string, string> = {
+	'wikipedia.org': 'Wikipedia',
+	'wiktionary.org': 'Wiktionary',
+	'wikivoyage.org': 'Wikivoyage',
+};
+
+type Page = {
+	/**
+	 * The host of the desktop site, e.g. ja.wikipedia.org
+	 */
+	host: string;
+	siteName: string;
+	title: string;
+	section: string | null;
+};
+
+function parse(url: URL): Page | null {
+	// ja.wikipedia.org, ja.m.wikipedia.org, commons.m.wikimedia.org
+	const match = /^([\w-]+)(?:\.m)?\.((?:wikipedia|wiktionary|wikivoyage|wikimedia)\.org)$/.exec(url.hostname);
+	if (!match) return null;
+	const [, lang, domain] = match;
+	const isCommons = domain === 'wikimedia.org';
+	if (isCommons && lang !== 'commons') return null;
+
+	let title: string | null = null;
+	try {
+		title = url.pathname.startsWith('/wiki/')
+			? decodeURIComponent(url.pathname.slice('/wiki/'.length))
+			: ['/w/index.php', '/wiki'].includes(url.pathname) ? url.searchParams.get('title') : null;
+	} catch {
+		return null;
+	}
+	title = title?.replace(/_/g, ' ').trim() ?? null;
+	if (!title) return null;
+
+	// Only the file pages are summarized on Commons
+	if (isCommons && !/^(File|Image):/i.test(title)) return null;
+
+	let section: string | null = null;
+	try {
+		section = url.hash ? decodeURIComponent(url.hash.slice(1)).replace(/ /g, '_') : null;
+	} catch {
+		section = null;
+	}
+
+	return {
+		host: `${lang}.${domain}`,
+		siteName: isCommons ? 'Wikimedia Commons' : PROJECTS[domain],
+		title,
+		section: section || null,
+	};
+}
+
 export function test(url: URL): boolean {
-	if (!url.hostname) return false;
-	return /\.wikipedia\.org$/.test(url.hostname);
+	return parse(url) !== null;
 }
 
-export async function summarize(url: URL): Promise<summary> {
-	const lang = url.host ? url.host.split('.')[0] : null;
-	const title = url.pathname ? url.pathname.split('/')[2] : null;
-	const endpoint = `https://${lang}.wikipedia.org/w/api.php?format=json&action=query&prop=extracts&exintro=&explaintext=&titles=${title}`;
+type JsonObject = Record<string, unknown>;
 
-	log(`lang is ${lang}`);
-	log(`title is ${title}`);
-	log(`endpoint is ${endpoint}`);
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The object, or an empty one to read no properties from
+ */
+function asObject(value: unknown): JsonObject {
+	return isObject(value) ? value : {};
+}
 
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	let body = await get(endpoint) as any;
-	body = JSON.parse(body);
-	log(body);
+function toText(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
 
-	if (!('query' in body) || !('pages' in body.query)) {
-		throw new Error('fetch failed');
+function toNumber(value: unknown): number | null {
+	return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+async function getJson(url: string, opts: RequestOptions): Promise<JsonObject> {
+	const json: unknown = JSON.parse(await get(url, opts, { accept: 'application/json' }));
+	if (!isObject(json)) {
+		throw new Error(`${url} did not return an object`);
+	}
+	return json;
+}
+
+/**
+ * Get the heading and the leading text of the section with the anchor
+ */
+async function getSection(page: Page, title: string, opts: RequestOptions): Promise<{ heading: string; text: string | null } | null> {
+	const api = `https://${page.host}/w/api.php?format=json&formatversion=2&action=parse&redirects=1&page=${encodeURIComponent(title)}`;
+
+	const sections = asObject((await getJson(`${api}&prop=sections`, opts)).parse).sections;
+	const section = (Array.isArray(sections) ? sections : []).filter(isObject).find(section => section.anchor === page.section);
+	const index = toText(section?.index);
+	const line = toText(section?.line);
+	if (!index || !line) return null;
+
+	const text = toText(asObject((await getJson(`${api}&prop=text&section=${encodeURIComponent(index)}&disableeditsection=1&disablelimitreport=1`, opts)).parse).text);
+	const $ = cheerio.load(text ?? '');
+	$('style, sup.reference, .mw-references-wrap, .mw-editsection').remove();
+	const paragraphs = $('p').toArray().map(p => $(p).text().trim()).filter(p => p !== '');
+
+	return {
+		heading: cheerio.load(line).root().text().trim(),
+		text: paragraphs.length > 0 ? paragraphs.join('\n') : null,
+	};
+}
+
+export async function summarize(url: URL, opts?: GeneralScrapingOptions): Promise<Summary | null> {
+	// test() guarantees that it is a page of the projects
+	const page = parse(url) as Page;
+	const requestOptions = getRequestOptions(opts);
+
+	// Redirects are followed by the endpoint
+	// See https://en.wikipedia.org/api/rest_v1/#/Page%20content/get_page_summary__title_
+	const endpoint = `https://${page.host}/api/rest_v1/page/summary/${encodeURIComponent(page.title.replace(/ /g, '_'))}`;
+	log(`endpoint is ${endpoint}`);
+
+	let body: JsonObject;
+	try {
+		body = await getJson(endpoint, requestOptions);
+	} catch (e) {
+		log(`failed to get the summary of ${url.href}: ${e}`);
+		return await general(url, opts);
 	}
 
-	const info = body.query.pages[Object.keys(body.query.pages)[0]];
+	const title = toText(asObject(body.titles).normalized) ?? toText(body.title)?.replace(/_/g, ' ') ?? page.title;
+	const section = page.section ? await getSection(page, title, requestOptions).catch(e => {
+		log(`failed to get the section ${page.section} of ${title}: ${e}`);
+		return null;
+	}) : null;
+
+	// The extract of a disambiguation page is only "X may refer to:", so the short description is preferred
+	const extract = body.type === 'disambiguation'
+		? toText(body.description) ?? toText(body.extract)
+		: toText(body.extract) ?? toText(body.description);
+	const description = section?.text ?? extract;
+	const thumbnail = asObject(body.thumbnail);
 
 	return {
-		title: info.title,
-		icon: 'https://wikipedia.org/static/favicon/wikipedia.ico',
-		description: clip(info.extract, 300),
-		thumbnail: `https://wikipedia.org/static/images/project-logos/${lang}wiki.png`,
+		title: section ? `${title} § ${section.heading}` : title,
+		icon: `https://${page.host}/favicon.ico`,
+		description: description ? clip(description, 300) : null,
+		thumbnail: toText(thumbnail.source),
+		thumbnailWidth: toNumber(thumbnail.width),
+		thumbnailHeight: toNumber(thumbnail.height),
+		modifiedTime: toText(body.timestamp),
+		locale: toText(body.lang),
 		player: {
 			url: null,
 			width: null,
 			height: null,
 			allow: [],
 		},
-		sitename: 'Wikipedia',
+		sitename: page.siteName,
+		sensitive: false,
 		activityPub: null,
 	};
 }
@@ -0,0 +1,112 @@
+import debug from 'debug';
+import { GeneralScrapingOptions, getRequestOptions } from '../general.js';
+import { get } from '../utils/got.js';
+import type Summary from '../summary.js';
+
+const log = debug('summaly:plugins:youtube');
+
+const HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+
+type Video = {
+	/**
+	 * The video id, or null for playlists
+	 */
+	id: string | null;
+	list: string | null;
+	start: number | null;
+	shorts: boolean;
+};
+
+const VIDEO_ID = /^[\w-]{11}$/;
+
+/**
+ * Parse `t` and `start` parameters such as `90`, `90s` and `1h2m3s`
+ */
+function parseTime(value: string | null): number | null {
+	if (!value) return null;
+	const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/.exec(value);
+	if (!match) return null;
+	const seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+	return seconds > 0 ? seconds : null;
+}
+
+function parse(url: URL): Video | null {
+	const list = url.searchParams.get('list');
+	const start = parseTime(url.searchParams.get('t') ?? url.searchParams.get('start'));
+	const path = url.pathname.split('/').filter(segment => segment !== '');
+
+	let id: string | null = null;
+	let shorts = false;
+	if (url.hostname === 'youtu.be') {
+		id = path.at(0) ?? null;
+	} else if (HOSTS.includes(url.hostname)) {
+		if (path[0] === 'watch') {
+			id = url.searchParams.get('v');
+		} else if (path[0] === 'playlist') {
+			return list ? { id: null, list, start: null, shorts: false } : null;
+		} else if (['shorts', 'live', 'embed', 'v'].includes(path[0]) && path.length === 2) {
+			id = path[1];
+			shorts = path[0] === 'shorts';
+		}
+	}
+
+	if (!id || !VIDEO_ID.test(id)) return null;
+	return { id, list, start, shorts };
+}
+
+export function test(url: URL): boolean {
+	return parse(url) !== null;
+}
+
+export async function summarize(url: URL, opts?: GeneralScrapingOptions): Promise<Summary> {
+	// test() guarantees that it is a video or a playlist
+	const video = parse(url) as Video;
+
+	const canonical = video.id
+		? `https://www.youtube.com/watch?v=${video.id}`
+		: `https://www.youtube.com/playlist?list=${encodeURIComponent(video.list ?? '')}`;
+
+	const player = new URL(`https://www.youtube-nocookie.com/embed/${video.id ?? 'videoseries'}`);
+	if (video.list) player.searchParams.set('list', video.list);
+	if (video.start) player.searchParams.set('start', String(video.start));
+
+	// The title and the channel are only available from oEmbed without scraping the page
+	const endpoint = `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(canonical)}`;
+	const oEmbed = await get(endpoint, getRequestOptions(opts))
+		.then(body => JSON.parse(body))
+		.catch(e => {
+			log(`failed to get oEmbed of ${canonical}: ${e}`);
+			return null;
+		});
+
+	const thumbnail = video.id ? `https://i.ytimg.com/vi/${video.id}/hqdefault.jpg` : typeof oEmbed?.thumbnail_url === 'string' ? oEmbed.thumbnail_url : null;
+
+	return {
+		title: typeof oEmbed?.title === 'string' ? oEmbed.title : null,
+		icon: 'https://www.youtube.com/favicon.ico',
+		description: null,
+		thumbnail,
+		// hqdefault.jpg is always 480x360 with letterboxes
+		thumbnailWidth: video.id ? 480 : null,
+		thumbnailHeight: video.id ? 360 : null,
+		author: typeof oEmbed?.author_name === 'string' ? oEmbed.author_name : null,
+		authorUrl: typeof oEmbed?.author_url === 'string' ? oEmbed.author_url : null,
+		sitename: 'YouTube',
+		player: {
+			url: player.href,
+			// Shorts are vertical
+			width: video.shorts ? 315 : 560,
+			height: video.shorts ? 560 : 315,
+			allow: [
+				'autoplay',
+				'clipboard-write',
+				'encrypted-media',
+				'picture-in-picture',
+				'web-share',
+				'fullscreen',
+			],
+		},
+		sensitive: false,
+		activityPub: null,
+	};
+}
@@ -0,0 +1,323 @@
+import { readFile } from 'node:fs/promises';
+import * as cheerio from 'cheerio';
+import debug from 'debug';
+import escapeRegExp from 'escape-regexp';
+import { parse as parseYaml } from 'yaml';
+import clip from './utils/clip.js';
+import { assertSupportedSelector, selectParsed } from './utils/got.js';
+import { RuleError } from './utils/rule-error.js';
+import type { SummalyPlugin } from './iplugin.js';
+import type Summary from './summary.js';
+
+const log = debug('summaly:rules');
+
+/**
+ * Where to take the value of a field from: a CSS selector (its text, or its attribute if specified)
+ * or the name of a meta tag. A string is a shorthand for a selector.
+ */
+export type FieldRule =
+	| string
+	| { selector: string; attribute?: string }
+	| { meta: string };
+
+const FIELDS = ['title', 'description', 'thumbnail', 'icon', 'sitename', 'author', 'authorUrl', 'publishedTime', 'modifiedTime', 'themeColor'] as const;
+
+/**
+ * The fields whose values are resolved against the url of the page
+ */
+const URL_FIELDS: RuleField[] = ['thumbnail', 'icon', 'authorUrl'];
+
+export type RuleField = typeof FIELDS[number];
+
+export type SiteRule = {
+	/**
+	 * The name of the rule, used in logs and errors
+	 */
+	name?: string;
+
+	/**
+	 * The host names the rule applies to. `*` matches any characters, e.g. `*.example.com`
+	 */
+	hosts: string[];
+
+	/**
+	 * The paths the rule applies to. `*` matches any characters, e.g. `/articles/*`.
+	 * Every path if not set.
+	 */
+	paths?: string[];
+
+	/**
+	 * How to rewrite the url before fetching the page
+	 */
+	rewrite?: {
+		/**
+		 * A regular expression for the whole url, replaced with `replacement`
+		 */
+		pattern?: string;
+		replacement?: string;
+
+		/**
+		 * Search parameters to set, such as `{ "$web_only": "true" }`
+		 */
+		searchParams?: Record<string, string>;
+	};
+
+	/**
+	 * Where to take the fields from, in preference to the general scraper.
+	 * The first rule that finds a value is used if an array is given.
+	 */
+	fields?: Partial<Record<RuleField, FieldRule | FieldRule[]>>;
+
+	/**
+	 * Fixed values
+	 */
+	sitename?: string;
+	icon?: string;
+	sensitive?: boolean;
+};
+
+type CompiledRewrite = {
+	pattern: RegExp | null;
+	replacement: string;
+	searchParams: [string, string][];
+};
+
+type CompiledField =
+	| { selector: string; attribute: string | null }
+	| { meta: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertKeys(value: Record<string, unknown>, keys: readonly string[], path: string): void {
+	for (const key of Object.keys(value)) {
+		if (!keys.includes(key)) {
+			throw new RuleError(`${path}.${key}`, `unknown property, expected one of ${keys.join(', ')}`);
+		}
+	}
+}
+
+function toString(value: unknown, path: string): string {
+	if (typeof value !== 'string' || value === '') {
+		throw new RuleError(path, 'must be a non-empty string');
+	}
+	return value;
+}
+
+function toStrings(value: unknown, path: string): string[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		throw new RuleError(path, 'must be a non-empty array of strings');
+	}
+	return value.map((item, i) => toString(item, `${path}[${i}]`));
+}
+
+function toPattern(glob: string): RegExp {
+	return new RegExp(`^${glob.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+}
+
+async function compileField(value: unknown, path: string): Promise<CompiledField> {
+	if (typeof value === 'string') {
+		return await compileField({ selector: value }, path);
+	}
+	if (!isObject(value)) {
+		throw new RuleError(path, 'must be a selector or an object with either "selector" or "meta"');
+	}
+	if ('meta' in value) {
+		assertKeys(value, ['meta'], path);
+		const meta = toString(value.meta, `${path}.meta`);
+		if (!/^[\w:.-]+$/.test(meta)) {
+			throw new RuleError(`${path}.meta`, `invalid name of a meta tag "${meta}"`);
+		}
+		return { meta };
+	}
+
+	assertKeys(value, ['selector', 'attribute'], path);
+	const selector = toString(value.selector, `${path}.selector`);
+	try {
+		cheerio.load('')(selector);
+		await assertSupportedSelector(selector);
+	} catch (e) {
+		throw new RuleError(`${path}.selector`, `unsupported selector "${selector}": ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+	}
+	return {
+		selector,
+		attribute: value.attribute === undefined ? null : toString(value.attribute, `${path}.attribute`),
+	};
+}
+
+function getValue($: cheerio.CheerioAPI, source: CompiledField): string | null {
+	const value = 'meta' in source
+		? $(`meta[property="${source.meta}"], meta[name="${source.meta}"]`).first().attr('content')
+		: source.attribute
+			? selectParsed($, source.selector).first().attr(source.attribute)
+			: selectParsed($, source.selector).first().text();
+	const text = value?.replace(/\s+/g, ' ').trim();
+	return text ? text : null;
+}
+
+function applyRewrite(url: URL, rewrite: CompiledRewrite): URL {
+	const target = new URL(rewrite.pattern ? url.href.replace(rewrite.pattern, rewrite.replacement) : url.href);
+	for (const [key, value] of rewrite.searchParams) {
+		target.searchParams.set(key, value);
+	}
+	return target;
+}
+
+function resolve(value: string, base: URL): string | null {
+	try {
+		return new URL(value, base).href;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Validate the rule and compile it into a plugin
+ */
+export async function compileRule(rule: unknown, path = 'rule'): Promise<SummalyPlugin> {
+	if (!isObject(rule)) {
+		throw new RuleError(path, 'must be an object');
+	}
+	assertKeys(rule, ['name', 'hosts', 'paths', 'rewrite', 'fields', 'sitename', 'icon', 'sensitive'], path);
+
+	const name = rule.name === undefined ? null : toString(rule.name, `${path}.name`);
+	const hosts = toStrings(rule.hosts, `${path}.hosts`).map(toPattern);
+	const paths = rule.paths === undefined ? [] : toStrings(rule.paths, `${path}.paths`).map(toPattern);
+
+	let rewrite: CompiledRewrite | null = null;
+	if (rule.rewrite !== undefined) {
+		const rewritePath = `${path}.rewrite`;
+		if (!isObject(rule.rewrite)) {
+			throw new RuleError(rewritePath, 'must be an object');
+		}
+		assertKeys(rule.rewrite, ['pattern', 'replacement', 'searchParams'], rewritePath);
+
+		let pattern: RegExp | null = null;
+		if (rule.rewrite.pattern !== undefined) {
+			try {
+				pattern = new RegExp(toString(rule.rewrite.pattern, `${rewritePath}.pattern`));
+			} catch (e) {
+				if (e instanceof RuleError) throw e;
+				throw new RuleError(`${rewritePath}.pattern`, `invalid regular expression: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+			}
+			if (typeof rule.rewrite.replacement !== 'string') {
+				throw new RuleError(`${rewritePath}.replacement`, 'must be a string if "pattern" is set');
+			}
+		} else if (rule.rewrite.replacement !== undefined) {
+			throw new RuleError(`${rewritePath}.replacement`, 'requires "pattern"');
+		}
+
+		const searchParams = rule.rewrite.searchParams ?? {};
+		if (!isObject(searchParams)) {
+			throw new RuleError(`${rewritePath}.searchParams`, 'must be an object of strings');
+		}
+		for (const [key, value] of Object.entries(searchParams)) {
+			if (typeof value !== 'string') {
+				throw new RuleError(`${rewritePath}.searchParams.${key}`, 'must be a string');
+			}
+		}
+
+		rewrite = {
+			pattern,
+			replacement: (rule.rewrite.replacement ?? '') as string,
+			searchParams: Object.entries(searchParams as Record<string, string>),
+		};
+	}
+
+	const fields: [RuleField, CompiledField[]][] = [];
+	if (rule.fields !== undefined) {
+		const fieldsPath = `${path}.fields`;
+		if (!isObject(rule.fields)) {
+			throw new RuleError(fieldsPath, 'must be an object');
+		}
+		assertKeys(rule.fields, FIELDS, fieldsPath);
+		for (const [field, value] of Object.entries(rule.fields)) {
+			const fieldPath = `${fieldsPath}.${field}`;
+			const compiled = Array.isArray(value)
+				? await Promise.all(value.map((item, i) => compileField(item, `${fieldPath}[${i}]`)))
+				: [await compileField(value, fieldPath)];
+			fields.push([field as RuleField, compiled]);
+		}
+	}
+
+	const fixed: Partial<Summary> = {};
+	if (rule.sitename !== undefined) fixed.sitename = toString(rule.sitename, `${path}.sitename`);
+	if (rule.icon !== undefined) fixed.icon = toString(rule.icon, `${path}.icon`);
+	if (rule.sensitive !== undefined) {
+		if (typeof rule.sensitive !== 'boolean') {
+			throw new RuleError(`${path}.sensitive`, 'must be a boolean');
+		}
+		fixed.sensitive = rule.sensitive;
+	}
+
+	const compiledRewrite = rewrite;
+
+	// Hooked into the general scraper like the other plugins without summarize()
+	return {
+		test: url => hosts.some(pattern => pattern.test(url.hostname)) && (paths.length === 0 || paths.some(pattern => pattern.test(url.pathname))),
+		rewriteUrl: compiledRewrite ? url => {
+			const target = applyRewrite(url, compiledRewrite);
+			log(`${name ?? path}: rewrote ${url.href} to ${target.href}`);
+			return target;
+		} : undefined,
+		selectors: fields.flatMap(([, compiled]) => compiled.flatMap(source => 'selector' in source ? [source.selector] : [])),
+		transform: ($, summary, url) => {
+			log(`${name ?? path}: extracting from ${url.href}`);
+			const extracted: Partial<Record<RuleField, string | null>> = {};
+			for (const [field, fieldSources] of fields) {
+				const value = fieldSources.reduce<string | null>((found, source) => found ?? getValue($, source), null);
+				extracted[field] = value && URL_FIELDS.includes(field) ? resolve(value, url) : value;
+			}
+			if (extracted.title) extracted.title = clip(extracted.title, 100);
+			if (extracted.description) extracted.description = clip(extracted.description, 300);
+			const found = Object.entries(extracted).filter(([, value]) => value != null);
+			return { ...summary, ...Object.fromEntries(found), ...fixed };
+		},
+	};
+}
+
+/**
+ * Validate the rules and compile them into plugins
+ */
+export async function compileRules(rules: unknown, path = 'rules'): Promise<SummalyPlugin[]> {
+	if (!Array.isArray(rules)) {
+		throw new RuleError(path, 'must be an array of rules');
+	}
+	return await Promise.all(rules.map((rule, i) => compileRule(rule, `${path}[${i}]`)));
+}
+
+const compiledFiles = new Map<string, Promise<SummalyPlugin[]>>();
+const compiledRules = new WeakMap<SiteRule[], Promise<SummalyPlugin[]>>();
+
+/**
+ * Load the rules, or the JSON or YAML file of them, as plugins.
+ * The compiled plugins are cached.
+ */
+export async function loadRules(rules: SiteRule[] | string): Promise<SummalyPlugin[]> {
+	if (typeof rules !== 'string') {
+		let compiled = compiledRules.get(rules);
+		if (!compiled) {
+			compiled = compileRules(rules);
+			compiledRules.set(rules, compiled);
+		}
+		return await compiled;
+	}
+
+	let compiled = compiledFiles.get(rules);
+	if (!compiled) {
+		compiled = readFile(rules, 'utf8').then(text => {
+			let parsed: unknown;
+			try {
+				parsed = /\.ya?ml$/i.test(rules) ? parseYaml(text) : JSON.parse(text);
+			} catch (e) {
+				throw new RuleError(rules, `failed to parse: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+			}
+			return compileRules(parsed, rules);
+		});
+		// Retry next time if failed
+		compiled.catch(() => compiledFiles.delete(rules));
+		compiledFiles.set(rules, compiled);
+	}
+	return await compiled;
+}
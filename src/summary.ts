@@ -19,6 +19,61 @@ type Summary = {
 	 */
 	thumbnail: string | null;
 
+	/**
+	 * The images declared in that web page (og:image), in order
+	 */
+	images?: Image[];
+
+	/**
+	 * The alternative text of the thumbnail
+	 */
+	thumbnailAlt?: string | null;
+
+	/**
+	 * The width of the thumbnail
+	 */
+	thumbnailWidth?: number | null;
+
+	/**
+	 * The height of the thumbnail
+	 */
+	thumbnailHeight?: number | null;
+
+	/**
+	 * The author of that web page
+	 */
+	author?: string | null;
+
+	/**
+	 * The url of the author of that web page
+	 */
+	authorUrl?: string | null;
+
+	/**
+	 * The date and time that web page was published, as written in that web page
+	 */
+	publishedTime?: string | null;
+
+	/**
+	 * The date and time that web page was last modified, as written in that web page
+	 */
+	modifiedTime?: string | null;
+
+	/**
+	 * The type of that web page, such as `article` or `video.movie` (og:type)
+	 */
+	type?: string | null;
+
+	/**
+	 * The locale of that web page, such as `ja_JP` (og:locale)
+	 */
+	locale?: string | null;
+
+	/**
+	 * The theme color of that web page
+	 */
+	themeColor?: string | null;
+
 	/**
 	 * The name of site of that web page
 	 */
@@ -38,6 +93,16 @@ type Summary = {
 	 * The url of the ActivityPub representation of that web page
 	 */
 	activityPub: string | null;
+
+	/**
+	 * The product information of that web page, only for the shops the plugins know
+	 */
+	product?: Product | null;
+
+	/**
+	 * The primary JSON-LD (schema.org) object of that web page, such as an Article, a Product or a VideoObject
+	 */
+	jsonLd?: Record<string, unknown> | null;
 };
 
 export type SummalyResult = Summary & {
@@ -45,6 +110,11 @@ export type SummalyResult = Summary & {
 	 * The actual url of that web page
 	 */
 	url: string;
+
+	/**
+	 * The urls redirected to before reaching that web page, in order
+	 */
+	redirects: string[];
 };
 
 export default Summary;
@@ -69,4 +139,68 @@ export type Player = {
 	 * The allowed permissions of the iframe
 	 */
 	allow: string[];
+
+	/**
+	 * The MIME type of the media if the url of the player is the media itself
+	 */
+	mediaType?: string | null;
+};
+
+export type Image = {
+	/**
+	 * The url of the image
+	 */
+	url: string;
+
+	/**
+	 * The width of the image
+	 */
+	width: number | null;
+
+	/**
+	 * The height of the image
+	 */
+	height: number | null;
+
+	/**
+	 * The alternative text of the image
+	 */
+	alt: string | null;
+
+	/**
+	 * The MIME type of the image
+	 */
+	type: string | null;
+};
+
+export type Product = {
+	/**
+	 * The identifier of the product, such as the ASIN on Amazon
+	 */
+	id: string | null;
+
+	/**
+	 * The canonical url of the product without tracking parameters
+	 */
+	url: string | null;
+
+	/**
+	 * The price as displayed, such as `￥1,280`
+	 */
+	price: string | null;
+
+	/**
+	 * The availability as displayed, such as `In Stock`
+	 */
+	availability: string | null;
+
+	/**
+	 * The average rating out of 5
+	 */
+	rating: number | null;
+
+	/**
+	 * The number of the ratings
+	 */
+	ratingCount: number | null;
 };
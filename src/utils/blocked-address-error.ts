@@ -0,0 +1,14 @@
+import { SummalyError } from './summaly-error.js';
+
+export class BlockedAddressError extends SummalyError {
+	public name: string;
+	public hostname: string;
+	public address: string;
+
+	constructor(message: string, hostname: string, address: string) {
+		super('BLOCKED_ADDRESS', message);
+		this.name = 'BlockedAddressError';
+		this.hostname = hostname;
+		this.address = address;
+	}
+}
@@ -0,0 +1,76 @@
+import { SummalyError } from './summaly-error.js';
+
+type InFlight = {
+	promise: Promise<unknown>;
+	controller: AbortController;
+	waiters: number;
+};
+
+const inFlight = new Map<string, InFlight>();
+
+function abortedError(): SummalyError {
+	return new SummalyError('ABORTED', 'Aborted by the caller');
+}
+
+/**
+ * Share the promise among concurrent calls with the same key.
+ * A call with the signal rejects as soon as it is aborted, and the shared work is aborted when every call is.
+ */
+export function coalesce<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal | null): Promise<T> {
+	if (signal?.aborted) return Promise.reject(abortedError());
+
+	let entry = inFlight.get(key);
+	if (!entry) {
+		const controller = new AbortController();
+		const promise = fn(controller.signal).finally(() => {
+			if (inFlight.get(key) === entry) inFlight.delete(key);
+		});
+		entry = { promise, controller, waiters: 0 };
+		inFlight.set(key, entry);
+	}
+
+	const shared = entry;
+	shared.waiters++;
+	if (!signal) return shared.promise as Promise<T>;
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => {
+			shared.waiters--;
+			if (shared.waiters === 0) {
+				// Later calls start over
+				if (inFlight.get(key) === shared) inFlight.delete(key);
+				shared.controller.abort(abortedError());
+			}
+			reject(abortedError());
+		};
+		signal.addEventListener('abort', onAbort, { once: true });
+		(shared.promise as Promise<T>).then(resolve, reject).finally(() => {
+			signal.removeEventListener('abort', onAbort);
+		});
+	});
+}
+
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+function getIdentity(value: object): number {
+	let identity = identities.get(value);
+	if (identity === undefined) {
+		identity = nextIdentity++;
+		identities.set(value, identity);
+	}
+	return identity;
+}
+
+/**
+ * Serialize the value for use as a key.
+ * Functions and class instances are compared by identity, anything else by value.
+ */
+export function toKey(value: unknown): string {
+	return JSON.stringify(value, (_, v: unknown) => {
+		if (typeof v === 'function' || (typeof v === 'object' && v !== null && !Array.isArray(v) && ![Object.prototype, null].includes(Object.getPrototypeOf(v)))) {
+			return `#${getIdentity(v)}`;
+		}
+		return v;
+	});
+}
@@ -0,0 +1,17 @@
+/**
+ * Map the values in order, with at most `concurrency` calls of fn in progress at a time
+ */
+export async function mapConcurrent<T, R>(values: T[], concurrency: number, fn: (value: T, index: number) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(values.length);
+	let next = 0;
+
+	const work = async () => {
+		while (next < values.length) {
+			const index = next++;
+			results[index] = await fn(values[index], index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), values.length) }, work));
+	return results;
+}
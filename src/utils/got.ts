@@ -3,8 +3,12 @@ import * as cheerio from 'cheerio';
 import MIMEType from 'whatwg-mimetype';
 import repo from '../../package.json' assert { type: 'json' };
 import { StatusError } from './status-error.js';
+import { SummalyError, toSummalyError } from './summaly-error.js';
+import { RedirectInterception } from './redirect-interception.js';
+import { assertAllowedAddress, getGuardedFetch } from './private-network.js';
+import { getProxy, getProxyFetch } from './proxy.js';
 import { detectEncoding, toUtf8, toEncoding } from './encoding.js';
-import type { ReadableStream, TransformStream as TransformStream_ } from 'node:stream/web';
+import type { ReadableStream as ReadableStream_ } from 'node:stream/web';
 let HTMLRewriter: typeof import('htmlrewriter').HTMLRewriter;
 if ('Bun' in globalThis) {
 	({ HTMLRewriter } = (await import('../../node_modules/htmlrewriter/node.mjs' as string)) as typeof import('htmlrewriter'));
@@ -19,7 +23,7 @@ function getCharset(value: string | null): string | null {
 	return type?.parameters.get('charset') ?? null;
 }
 
-declare const TransformStream: typeof TransformStream_;
+declare const ReadableStream: typeof ReadableStream_;
 
 export type GotOptions = {
 	url: string;
@@ -27,16 +31,31 @@ export type GotOptions = {
 	body?: string;
 	headers: Record<string, string | undefined>;
 	typeFilter?: RegExp;
+	partialTypeFilter?: RegExp;
 	responseTimeout?: number;
 	operationTimeout?: number;
 	contentLengthLimit?: number;
 	contentLengthRequired?: boolean;
+	rejectPrivateAddresses?: boolean;
+	allowedNetworks?: string[];
+	deniedNetworks?: string[];
+	maxRedirects?: number;
+	signal?: AbortSignal;
+	fetch?: typeof globalThis.fetch;
+	proxy?: string | boolean;
+	noProxy?: string[];
+	interceptRedirect?: (url: URL) => boolean;
 }
 
+export type RequestOptions = Pick<GotOptions, 'responseTimeout' | 'operationTimeout' | 'contentLengthLimit' | 'rejectPrivateAddresses' | 'allowedNetworks' | 'deniedNetworks' | 'maxRedirects' | 'signal' | 'fetch' | 'proxy' | 'noProxy'> & {
+	userAgent?: string;
+};
+
 const DEFAULT_RESPONSE_TIMEOUT = 20 * 1000;
 const DEFAULT_OPERATION_TIMEOUT = 60 * 1000;
-const DEFAULT_MAX_RESPONSE_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_MAX_RESPONSE_SIZE = 10 * 1024 * 1024;
 const DEFAULT_BOT_UA = `SummalyBot/${repo.version}`;
+export const DEFAULT_MAX_REDIRECTS = 20;
 
 export interface PrioritizedReference<T> {
 	priority: number
@@ -50,36 +69,99 @@ export function assign<T>(target: PrioritizedReference<T>, priority: Prioritized
 	}
 }
 
-export async function scpaping(
-	url: string,
-	opts?: {
-		lang?: string;
-		userAgent?: string;
-		responseTimeout?: number;
-		operationTimeout?: number;
-		contentLengthLimit?: number;
-		contentLengthRequired?: boolean;
-	},
-) {
-	const args: Omit<GotOptions, 'method'> = {
+export type ScpapingOptions = {
+	lang?: string;
+	userAgent?: string;
+	responseTimeout?: number;
+	operationTimeout?: number;
+	contentLengthLimit?: number;
+	contentLengthRequired?: boolean;
+	rejectPrivateAddresses?: boolean;
+	allowedNetworks?: string[];
+	deniedNetworks?: string[];
+	maxRedirects?: number;
+	signal?: AbortSignal;
+	fetch?: typeof globalThis.fetch;
+	proxy?: string | boolean;
+	noProxy?: string[];
+
+	/**
+	 * Throw a RedirectInterception instead of following the redirect to the urls for which this returns true
+	 */
+	interceptRedirect?: (url: URL) => boolean;
+}
+
+export type GotResponse = {
+	body: Response;
+	response: Response;
+	redirects: string[];
+}
+
+const HTML_TYPE_FILTER = /^(text\/html|application\/xhtml\+xml)/;
+
+export async function scpaping(url: string, opts?: ScpapingOptions, selectors?: string[]) {
+	return await parseHtml(await getPage(url, opts), selectors);
+}
+
+/**
+ * Get a web page. Responses of mediaTypeFilter are also accepted, whose body
+ * is expected to be read only partially and therefore its content-length is not checked.
+ * Responses of extraTypeFilter are accepted and read in full.
+ */
+export async function getPage(url: string, opts?: ScpapingOptions, mediaTypeFilter?: RegExp, extraTypeFilter?: RegExp): Promise<GotResponse> {
+	const typeFilter = [HTML_TYPE_FILTER, mediaTypeFilter, extraTypeFilter]
+		.filter((filter): filter is RegExp => filter !== undefined)
+		.map(filter => filter.source)
+		.join('|');
+
+	return await getResponse({
 		url,
+		method: 'GET',
 		headers: {
-			'accept': 'text/html,application/xhtml+xml',
+			'accept': mediaTypeFilter || extraTypeFilter ? 'text/html,application/xhtml+xml,*/*;q=0.8' : 'text/html,application/xhtml+xml',
 			'user-agent': opts?.userAgent ?? DEFAULT_BOT_UA,
 			'accept-language': opts?.lang,
 		},
-		typeFilter: /^(text\/html|application\/xhtml\+xml)/,
+		typeFilter: new RegExp(typeFilter),
+		partialTypeFilter: mediaTypeFilter,
 		responseTimeout: opts?.responseTimeout,
 		operationTimeout: opts?.operationTimeout,
 		contentLengthLimit: opts?.contentLengthLimit,
 		contentLengthRequired: opts?.contentLengthRequired,
-	};
-
-	const response = await getResponse({
-		...args,
-		method: 'GET',
+		rejectPrivateAddresses: opts?.rejectPrivateAddresses,
+		allowedNetworks: opts?.allowedNetworks,
+		deniedNetworks: opts?.deniedNetworks,
+		maxRedirects: opts?.maxRedirects,
+		signal: opts?.signal,
+		fetch: opts?.fetch,
+		proxy: opts?.proxy,
+		noProxy: opts?.noProxy,
+		interceptRedirect: opts?.interceptRedirect,
 	});
+}
+
+export function isHtml(response: GotResponse): boolean {
+	return HTML_TYPE_FILTER.test(response.response.headers.get('content-type') ?? '');
+}
 
+const SELECTED_ATTRIBUTE = 'data-summaly-selected';
+
+// The selectors the pages were parsed with, whose indexes the elements are marked with
+const parsedSelectors = new WeakMap<cheerio.CheerioAPI, string[]>();
+
+/**
+ * Select the elements which matched the selector in the page parsed by parseHtml with it
+ */
+export function selectParsed($: cheerio.CheerioAPI, selector: string) {
+	const index = parsedSelectors.get($)?.indexOf(selector) ?? -1;
+	return index === -1 ? $([]) : $(`[${SELECTED_ATTRIBUTE}~="${index}"]`);
+}
+
+/**
+ * Parse the HTML, keeping the elements matching the selectors in addition to the ones summaly uses
+ */
+export async function parseHtml(response: GotResponse, selectors: string[] = []) {
+	const uniqueSelectors = [...new Set(selectors)];
 	const pickedCharset: PrioritizedReference<string | null> = {
 		priority: 0,
 		content: null,
@@ -89,9 +171,17 @@ export async function scpaping(
 	// encodings, but we can use it to strip out tags we don't need since it won't
 	// reencode text unless we ask it to.
 	const rewriter = new HTMLRewriter();
+	// The selectors may not match after stripping, so the elements are marked with their indexes
+	for (const [i, selector] of uniqueSelectors.entries()) {
+		rewriter.on(selector, {
+			element(element) {
+				const selected = element.getAttribute(SELECTED_ATTRIBUTE);
+				element.setAttribute(SELECTED_ATTRIBUTE, selected ? `${selected} ${i}` : String(i));
+			},
+		});
+	}
 	rewriter.on('*', {
 		element(element) {
-			const id = element.getAttribute('id');
 			const tag = element.tagName;
 			if (tag === 'meta') {
 				const charset = element.getAttribute('charset');
@@ -103,16 +193,22 @@ export async function scpaping(
 					assign(pickedCharset, 2, getCharset(element.getAttribute('content')));
 				}
 			}
+			// Keep JSON-LD (schema.org) blocks for the structured data
+			if (tag === 'script' && element.getAttribute('type')?.trim().toLowerCase() === 'application/ld+json') {
+				return;
+			}
 			if (tag === 'script' || tag === 'template' || tag === 'style' || tag === 'svg') {
 				element.remove();
 			}
-			if (tag !== 'title' && tag !== 'link' && tag !== 'meta' && id !== 'title' && id !== 'productDescription' && id !== 'landingImage') {
+			if (!element.hasAttribute(SELECTED_ATTRIBUTE) && tag !== 'title' && tag !== 'link' && tag !== 'meta') {
 				element.removeAndKeepContent();
 			}
 		},
 	});
 
-	let transformed: ArrayBuffer | null = await rewriter.transform(response.body).arrayBuffer();
+	let transformed: ArrayBuffer | null = await rewriter.transform(response.body).arrayBuffer().catch(e => {
+		throw toSummalyError(e);
+	});
 	assign(pickedCharset, 1, getCharset(response.response.headers.get('content-type')));
 	let charset = toEncoding(pickedCharset.content);
 	if (!charset) {
@@ -122,6 +218,7 @@ export async function scpaping(
 	const body = toUtf8(Buffer.from(transformed), charset);
 	transformed = null;
 	const $ = cheerio.load(body);
+	parsedSelectors.set($, uniqueSelectors);
 
 	return {
 		body,
@@ -130,48 +227,95 @@ export async function scpaping(
 	};
 }
 
-export async function get(url: string) {
+/**
+ * Throw if the selector is not supported by HTMLRewriter, which lacks some of the CSS selectors
+ */
+export async function assertSupportedSelector(selector: string): Promise<void> {
+	const rewriter = new HTMLRewriter().on(selector, {});
+	await rewriter.transform(new Response('')).arrayBuffer();
+}
+
+export async function get(url: string, opts?: RequestOptions, headers?: Record<string, string>) {
+	const { userAgent, ...args } = opts ?? {};
 	const res = await getResponse({
+		...args,
 		url,
 		method: 'GET',
 		headers: {
 			'accept': '*/*',
+			'user-agent': userAgent ?? DEFAULT_BOT_UA,
+			...headers,
 		},
 	});
 
-	return await res.body.text();
+	return await res.body.text().catch(e => {
+		throw toSummalyError(e);
+	});
 }
 
-export async function head(url: string) {
+/**
+ * POST the body as JSON and get the response as text
+ */
+export async function post(url: string, body: unknown, opts?: RequestOptions) {
+	const { userAgent, ...args } = opts ?? {};
+	const res = await getResponse({
+		...args,
+		url,
+		method: 'POST',
+		body: JSON.stringify(body),
+		headers: {
+			'accept': 'application/json',
+			'content-type': 'application/json',
+			'user-agent': userAgent ?? DEFAULT_BOT_UA,
+		},
+	});
+
+	return await res.body.text().catch(e => {
+		throw toSummalyError(e);
+	});
+}
+
+export async function head(url: string, opts?: RequestOptions) {
+	const { userAgent, ...args } = opts ?? {};
 	return await getResponse({
+		...args,
 		url,
 		method: 'HEAD',
 		headers: {
 			'accept': '*/*',
+			'user-agent': userAgent ?? DEFAULT_BOT_UA,
 		},
 	});
 }
 
-async function getResponse(args: GotOptions): Promise<{ body: Response; response: Response; }> {
+async function getResponse(args: GotOptions): Promise<GotResponse> {
 	const timeout = args.responseTimeout ?? DEFAULT_RESPONSE_TIMEOUT;
 	const operationTimeout = args.operationTimeout ?? DEFAULT_OPERATION_TIMEOUT;
 
 	const controller = new AbortController();
-	const timeoutHandle = setTimeout(() => controller.abort(), timeout);
-	const operationTimeoutHandle = setTimeout(() => controller.abort(), operationTimeout);
-	try {
-		const res = await fetch(args.url, {
-			method: args.method,
-			headers: Object.fromEntries(
-				Object.entries(args.headers).filter<[string, string]>(
-					(value): value is [string, string] => value[1] !== undefined,
-				),
-			),
-			body: args.body,
-			signal: controller.signal,
-		});
+	// The response timeout applies until the headers arrive and between the chunks of the body,
+	// and the operation timeout until the body is read through
+	const onResponseTimeout = () => controller.abort(new SummalyError('TIMEOUT', `Response timed out (${timeout}ms)`));
+	let timeoutHandle = setTimeout(onResponseTimeout, timeout);
+	const operationTimeoutHandle = setTimeout(() => controller.abort(new SummalyError('TIMEOUT', `Operation timed out (${operationTimeout}ms)`)), operationTimeout);
+	const onAbort = () => controller.abort(args.signal?.reason);
+	args.signal?.addEventListener('abort', onAbort);
+	if (args.signal?.aborted) onAbort();
 
+	const resetResponseTimeout = () => {
+		clearTimeout(timeoutHandle);
+		timeoutHandle = setTimeout(onResponseTimeout, timeout);
+	};
+	const finish = () => {
 		clearTimeout(timeoutHandle);
+		clearTimeout(operationTimeoutHandle);
+		args.signal?.removeEventListener('abort', onAbort);
+	};
+
+	try {
+		const { response: res, redirects } = await fetchFollowingRedirects(args, controller.signal);
+
+		resetResponseTimeout();
 
 		if (!res.ok) {
 			// 応答取得 with ステータスコードエラーの整形
@@ -181,20 +325,23 @@ async function getResponse(args: GotOptions): Promise<{ body: Response; response
 		// Check html
 		const contentType = res.headers.get('content-type');
 		if (args.typeFilter && !contentType?.match(args.typeFilter)) {
-			throw new Error(`Rejected by type filter ${contentType}`);
+			throw new SummalyError('UNSUPPORTED_CONTENT_TYPE', `Rejected by type filter ${contentType}`);
 		}
 
-		// 応答ヘッダでサイズチェック
+		// 応答ヘッダでサイズチェック (本文を一部しか読まない場合を除く)
+		const partial = args.partialTypeFilter && contentType?.match(args.partialTypeFilter);
 		const contentLength = res.headers.get('content-length');
-		if (contentLength) {
-			const maxSize = args.contentLengthLimit ?? DEFAULT_MAX_RESPONSE_SIZE;
-			const size = Number(contentLength);
-			if (size > maxSize) {
-				throw new Error(`maxSize exceeded (${size} > ${maxSize}) on response`);
-			}
-		} else {
-			if (args.contentLengthRequired) {
-				throw new Error('content-length required');
+		if (!partial) {
+			if (contentLength) {
+				const maxSize = args.contentLengthLimit ?? DEFAULT_MAX_RESPONSE_SIZE;
+				const size = Number(contentLength);
+				if (size > maxSize) {
+					throw new SummalyError('TOO_LARGE', `maxSize exceeded (${size} > ${maxSize}) on response`);
+				}
+			} else {
+				if (args.contentLengthRequired) {
+					throw new SummalyError('CONTENT_LENGTH_REQUIRED', 'content-length required');
+				}
 			}
 		}
 
@@ -203,37 +350,122 @@ async function getResponse(args: GotOptions): Promise<{ body: Response; response
 		// 受信中のデータでサイズチェック
 		let transferred = 0;
 
-		let bodyStream: ReadableStream<Uint8Array> | undefined;
+		let bodyStream: ReadableStream_<Uint8Array> | undefined;
 		if (res.body) {
-			bodyStream = res.body.pipeThrough(new TransformStream({
-				start() {
-				},
-				transform(chunk, controller) {
-					transferred += chunk.length;
-					if (transferred > maxSize ) {
-						throw new Error(`maxSize exceeded (${transferred} > ${maxSize}) on response`);
+			const reader = res.body.getReader();
+			bodyStream = new ReadableStream<Uint8Array>({
+				async pull(stream) {
+					try {
+						const { done, value } = await reader.read();
+						if (done) {
+							finish();
+							stream.close();
+							return;
+						}
+						resetResponseTimeout();
+						transferred += value.length;
+						if (transferred > maxSize && partial) {
+							// 一部しか読まない場合は上限で打ち切る
+							stream.enqueue(value.subarray(0, value.length - (transferred - maxSize)));
+							stream.close();
+							finish();
+							await reader.cancel();
+							return;
+						}
+						if (transferred > maxSize) {
+							throw new SummalyError('TOO_LARGE', `maxSize exceeded (${transferred} > ${maxSize}) on response`);
+						}
+						stream.enqueue(value);
+					} catch (e) {
+						finish();
+						controller.abort();
+						throw toSummalyError(e);
 					}
-					controller.enqueue(chunk);
 				},
-				flush() {
+				async cancel(reason) {
+					finish();
+					await reader.cancel(reason);
 				},
-			}));
+			});
+		} else {
+			finish();
 		}
 
 		const body = new Response(bodyStream, {
 			headers: res.headers,
 		});
-		
-		clearTimeout(operationTimeoutHandle);
-	
+
 		return {
 			body,
 			response: res,
+			redirects,
 		};
 	} catch (e) {
-		clearTimeout(timeoutHandle);
-		clearTimeout(operationTimeoutHandle);
+		finish();
 		controller.abort();
-		throw e;
+		if (e instanceof RedirectInterception) throw e;
+		throw toSummalyError(e);
+	}
+}
+
+/**
+ * Follow redirects manually so that the scheme and the address of every hop are validated.
+ * Returns the final response and the urls redirected to, in order.
+ */
+async function fetchFollowingRedirects(args: GotOptions, signal: AbortSignal): Promise<{ response: Response; redirects: string[]; }> {
+	const maxRedirects = args.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+	const redirects: string[] = [];
+	let url = new URL(args.url);
+	let method = args.method;
+	let body = args.body;
+
+	for (;;) {
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+			throw new SummalyError('INVALID_URL', `Unsupported protocol ${url.protocol}`);
+		}
+		if (redirects.length > 0 && args.interceptRedirect?.(url)) {
+			throw new RedirectInterception(url, redirects);
+		}
+		await assertAllowedAddress(url, args);
+
+		// The proxy is chosen for each hop as NO_PROXY depends on the host.
+		// The proxy resolves the host by itself, so the connection is guarded only without one
+		const proxy = args.fetch ? null : getProxy(url, args);
+		const fetchImpl = args.fetch ?? (proxy ? await getProxyFetch(proxy) : await getGuardedFetch(args) ?? fetch);
+
+		const res = await fetchImpl(url.href, {
+			method,
+			headers: Object.fromEntries(
+				Object.entries(args.headers).filter<[string, string]>(
+					(value): value is [string, string] => value[1] !== undefined,
+				),
+			),
+			body,
+			signal,
+			redirect: 'manual',
+		});
+
+		const location = res.headers.get('location');
+		if (![301, 302, 303, 307, 308].includes(res.status) || location == null) {
+			// Responses made by a custom fetch, such as mocks, may lack the url
+			if (!res.url) Object.defineProperty(res, 'url', { value: url.href });
+			return {
+				response: res,
+				redirects,
+			};
+		}
+
+		await res.body?.cancel();
+
+		if (redirects.length >= maxRedirects) {
+			throw new SummalyError('TOO_MANY_REDIRECTS', `Too many redirects (> ${maxRedirects})`);
+		}
+
+		url = new URL(location, url);
+		redirects.push(url.href);
+		if ((res.status === 303 && method !== 'HEAD') || ((res.status === 301 || res.status === 302) && method === 'POST')) {
+			method = 'GET';
+			body = undefined;
+		}
 	}
 }
@@ -0,0 +1,70 @@
+import type * as cheerio from 'cheerio';
+import type { WebAppManifest } from './manifest.js';
+
+export type IconCandidate = {
+	url: string;
+
+	/**
+	 * The largest declared size in pixels, Infinity for scalable icons, or null if unknown
+	 */
+	size: number | null;
+};
+
+/**
+ * Parse the `sizes` attribute, such as `16x16 32x32` or `any`
+ */
+export function parseSizes(sizes: string | null | undefined): number | null {
+	if (!sizes) return null;
+	let largest: number | null = null;
+	for (const size of sizes.trim().toLowerCase().split(/\s+/)) {
+		if (size === 'any') return Infinity;
+		const match = /^(\d+)x(\d+)$/.exec(size);
+		if (match) {
+			largest = Math.max(largest ?? 0, Number(match[1]), Number(match[2]));
+		}
+	}
+	return largest;
+}
+
+/**
+ * Gather the icons declared with `<link rel="icon">` and `<link rel="apple-touch-icon">` in the page
+ */
+export function getLinkIcons($: cheerio.CheerioAPI, pageUrl: string): IconCandidate[] {
+	const candidates: IconCandidate[] = [];
+	for (const element of $('link[rel~="icon" i], link[rel~="apple-touch-icon" i], link[rel~="apple-touch-icon-precomposed" i]').toArray()) {
+		const href = $(element).attr('href');
+		if (!href) continue;
+		const rel = ($(element).attr('rel') ?? '').toLowerCase().split(/\s+/);
+		// Apple touch icons are 180x180 unless specified
+		const defaultSize = rel.includes('icon') ? null : 180;
+		try {
+			candidates.push({ url: new URL(href, pageUrl).href, size: parseSizes($(element).attr('sizes')) ?? defaultSize });
+		} catch {
+			// Invalid url
+		}
+	}
+	return candidates;
+}
+
+/**
+ * Gather the icons declared in the Web App Manifest
+ */
+export function getManifestIcons(manifest: WebAppManifest | null): IconCandidate[] {
+	return (manifest?.icons ?? [])
+		// Maskable icons are cropped
+		.filter(icon => !icon.purpose || icon.purpose.split(/\s+/).includes('any'))
+		.map(icon => ({ url: icon.src, size: parseSizes(icon.sizes) }));
+}
+
+/**
+ * Order the icons by how well they fit the target size: the smallest one not smaller than the target first,
+ * then the ones of unknown size, and then the smaller ones from the largest.
+ */
+export function rankIcons(candidates: IconCandidate[], target: number): IconCandidate[] {
+	const rank = ({ size }: IconCandidate) => size === null ? 1 : size >= target ? 0 : 2;
+	return [...candidates].sort((a, b) => {
+		if (rank(a) !== rank(b)) return rank(a) - rank(b);
+		if (a.size === null || b.size === null || a.size === b.size) return 0;
+		return rank(a) === 0 ? a.size - b.size : b.size - a.size;
+	});
+}
@@ -0,0 +1,115 @@
+import type * as cheerio from 'cheerio';
+
+export type JsonLdObject = Record<string, unknown> & {
+	'@type'?: string | string[];
+};
+
+export type JsonLdMetadata = {
+	/**
+	 * The primary object of the page, such as an Article, a Product or a VideoObject
+	 */
+	object: JsonLdObject;
+	title: string | null;
+	description: string | null;
+	image: string | null;
+	author: string | null;
+	publishedTime: string | null;
+	modifiedTime: string | null;
+	publisherName: string | null;
+	publisherLogo: string | null;
+};
+
+/**
+ * Types which describe the site or the page around the content rather than the content itself
+ */
+const SECONDARY_TYPES = [
+	'WebSite',
+	'WebPage',
+	'Organization',
+	'Person',
+	'BreadcrumbList',
+	'ImageObject',
+	'SiteNavigationElement',
+	'SearchAction',
+];
+
+function isObject(value: unknown): value is JsonLdObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getTypes(object: JsonLdObject): string[] {
+	const type = object['@type'];
+	return Array.isArray(type) ? type : typeof type === 'string' ? [type] : [];
+}
+
+function flatten(value: unknown): JsonLdObject[] {
+	if (Array.isArray(value)) {
+		return value.flatMap(flatten);
+	}
+	if (!isObject(value)) {
+		return [];
+	}
+	return [value, ...flatten(value['@graph'])];
+}
+
+function toText(value: unknown): string | null {
+	if (Array.isArray(value)) {
+		return toText(value[0]);
+	}
+	if (isObject(value)) {
+		return toText(value['@value'] ?? value.name);
+	}
+	return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function toUrl(value: unknown, base: string): string | null {
+	const url = Array.isArray(value) ? toUrl(value[0], base) :
+		isObject(value) ? toText(value.url ?? value.contentUrl ?? value['@id']) :
+		toText(value);
+	if (!url) return null;
+	try {
+		return new URL(url, base).href;
+	} catch {
+		return null;
+	}
+}
+
+function toNames(value: unknown): string | null {
+	const names = (Array.isArray(value) ? value : [value]).map(toText).filter((name): name is string => name !== null);
+	return names.length > 0 ? names.join(', ') : null;
+}
+
+/**
+ * Get the metadata from the JSON-LD (schema.org) blocks of the page
+ */
+export function getJsonLd($: cheerio.CheerioAPI, pageUrl: string): JsonLdMetadata | null {
+	const objects = $('script[type="application/ld+json" i]').toArray().flatMap(element => {
+		try {
+			return flatten(JSON.parse($(element).text()));
+		} catch {
+			return [];
+		}
+	}).filter(object => getTypes(object).length > 0);
+
+	const object =
+		objects.find(object => getTypes(object).some(type => !SECONDARY_TYPES.includes(type))) ??
+		objects.find(object => getTypes(object).includes('WebPage')) ??
+		objects.at(0);
+	if (!object) {
+		return null;
+	}
+
+	const publisher = isObject(object.publisher) ? object.publisher : null;
+
+	return {
+		object,
+		title: toText(object.headline ?? object.name),
+		description: toText(object.description),
+		image: toUrl(object.image ?? object.thumbnailUrl, pageUrl),
+		author: toNames(object.author),
+		publishedTime: toText(object.datePublished ?? object.uploadDate),
+		modifiedTime: toText(object.dateModified),
+		publisherName: publisher && toText(publisher.name),
+		publisherLogo: publisher && toUrl(publisher.logo, pageUrl),
+	};
+}
@@ -0,0 +1,67 @@
+import { get } from './got.js';
+import type { RequestOptions } from './got.js';
+
+export type ManifestIcon = {
+	/**
+	 * The url of the icon, resolved against the url of the manifest
+	 */
+	src: string;
+	sizes: string | null;
+	type: string | null;
+	purpose: string | null;
+};
+
+export type WebAppManifest = {
+	name: string | null;
+	shortName: string | null;
+	themeColor: string | null;
+	icons: ManifestIcon[];
+};
+
+function toText(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Fetch the Web App Manifest at the url
+ * See https://www.w3.org/TR/appmanifest/
+ */
+export async function getManifest(manifestUrl: string, opts: RequestOptions): Promise<WebAppManifest | null> {
+	const body = await get(manifestUrl, opts).catch(() => null);
+	if (!body) return null;
+
+	let json: unknown;
+	try {
+		json = JSON.parse(body);
+	} catch {
+		return null;
+	}
+	if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+		return null;
+	}
+
+	const manifest = json as Record<string, unknown>;
+	const icons = Array.isArray(manifest.icons) ? manifest.icons : [];
+
+	return {
+		name: toText(manifest.name),
+		shortName: toText(manifest.short_name),
+		themeColor: toText(manifest.theme_color),
+		icons: icons.flatMap((icon: unknown) => {
+			if (typeof icon !== 'object' || icon === null) return [];
+			const { src, sizes, type, purpose } = icon as Record<string, unknown>;
+			const text = toText(src);
+			if (!text) return [];
+			try {
+				return [{
+					src: new URL(text, manifestUrl).href,
+					sizes: toText(sizes),
+					type: toText(type),
+					purpose: toText(purpose),
+				}];
+			} catch {
+				return [];
+			}
+		}),
+	};
+}
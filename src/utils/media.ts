@@ -0,0 +1,202 @@
+import { Buffer } from 'node:buffer';
+import { decode as decodeHtml } from 'html-entities';
+import { toSummalyError } from './summaly-error.js';
+
+/**
+ * Read at most `size` bytes of the body and discard the rest
+ */
+export async function readHead(body: Response, size: number): Promise<Buffer> {
+	if (!body.body) return Buffer.alloc(0);
+
+	const reader = body.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	try {
+		while (length < size) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			length += value.length;
+		}
+	} catch (e) {
+		throw toSummalyError(e);
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+
+	return Buffer.concat(chunks).subarray(0, size);
+}
+
+/**
+ * Get the dimensions of PNG, GIF, JPEG, WebP, BMP, AVIF/HEIF and SVG images from their first bytes
+ */
+export function getImageSize(buf: Buffer): { width: number; height: number } | null {
+	try {
+		// PNG
+		if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+			return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+		}
+
+		// GIF
+		if (/^GIF8[79]a/.test(buf.toString('latin1', 0, 6))) {
+			return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+		}
+
+		// BMP
+		if (buf.toString('latin1', 0, 2) === 'BM') {
+			if (buf.readUInt32LE(14) === 12) {
+				return { width: buf.readUInt16LE(18), height: buf.readUInt16LE(20) };
+			}
+			return { width: buf.readInt32LE(18), height: Math.abs(buf.readInt32LE(22)) };
+		}
+
+		// WebP
+		if (buf.toString('latin1', 0, 4) === 'RIFF' && buf.toString('latin1', 8, 12) === 'WEBP') {
+			switch (buf.toString('latin1', 12, 16)) {
+				case 'VP8 ':
+					return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+				case 'VP8L': {
+					const bits = buf.readUInt32LE(21);
+					return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+				}
+				case 'VP8X':
+					return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+			}
+			return null;
+		}
+
+		// JPEG
+		if (buf[0] === 0xff && buf[1] === 0xd8) {
+			let i = 2;
+			while (i + 9 < buf.length) {
+				if (buf[i] !== 0xff) return null;
+				const marker = buf[i + 1];
+				if (marker === 0xff) {
+					// Fill byte
+					i++;
+					continue;
+				}
+				if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+					return { width: buf.readUInt16BE(i + 7), height: buf.readUInt16BE(i + 5) };
+				}
+				if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+					// Markers without length
+					i += 2;
+					continue;
+				}
+				i += 2 + buf.readUInt16BE(i + 2);
+			}
+			return null;
+		}
+
+		// AVIF, HEIF
+		if (buf.toString('latin1', 4, 8) === 'ftyp') {
+			const ispe = buf.indexOf('ispe', 0, 'latin1');
+			if (ispe === -1) return null;
+			return { width: buf.readUInt32BE(ispe + 8), height: buf.readUInt32BE(ispe + 12) };
+		}
+
+		// SVG
+		const svg = /<svg\b[^>]*>/i.exec(buf.toString('utf8'));
+		if (svg) {
+			const attr = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(svg[0])?.[1];
+			const width = parseFloat(attr('width') ?? '');
+			const height = parseFloat(attr('height') ?? '');
+			if (width > 0 && height > 0 && !/%/.test(attr('width') ?? '')) {
+				return { width, height };
+			}
+			const viewBox = attr('viewBox')?.trim().split(/[\s,]+/).map(Number);
+			if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+				return { width: viewBox[2], height: viewBox[3] };
+			}
+		}
+	} catch {
+		// Truncated header
+	}
+
+	return null;
+}
+
+function decodePdfText(bytes: Buffer): string {
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+		return Buffer.from(bytes.subarray(2)).swap16().toString('utf16le');
+	}
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+		return bytes.subarray(3).toString('utf8');
+	}
+	// PDFDocEncoding is mostly compatible with Latin-1
+	return bytes.toString('latin1');
+}
+
+function readPdfString(dict: string, key: string): string | null {
+	const match = new RegExp(`/${key}\\s*([(<])`).exec(dict);
+	if (!match) return null;
+
+	let i = match.index + match[0].length;
+	const bytes: number[] = [];
+
+	if (match[1] === '<') {
+		const end = dict.indexOf('>', i);
+		if (end === -1) return null;
+		const hex = dict.slice(i, end).replace(/\s/g, '');
+		for (let j = 0; j < hex.length; j += 2) {
+			bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+		}
+	} else {
+		const escapes: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, b: 0x08, f: 0x0c };
+		let depth = 0;
+		for (; i < dict.length; i++) {
+			const c = dict[i];
+			if (c === '\\') {
+				const next = dict.charAt(++i);
+				const octal = /^[0-7]{1,3}/.exec(dict.slice(i, i + 3));
+				if (next in escapes) {
+					bytes.push(escapes[next]);
+				} else if (octal) {
+					bytes.push(parseInt(octal[0], 8) & 0xff);
+					i += octal[0].length - 1;
+				} else if (next === '') {
+					break;
+				} else if (next !== '\r' && next !== '\n') {
+					bytes.push(next.charCodeAt(0));
+				}
+				continue;
+			}
+			if (c === '(') depth++;
+			if (c === ')' && depth-- === 0) break;
+			bytes.push(c.charCodeAt(0));
+		}
+	}
+
+	const text = decodePdfText(Buffer.from(bytes)).replace(/\0/g, '').trim();
+	return text || null;
+}
+
+/**
+ * Get the title and the author from the document information dictionary
+ * or the XMP metadata in the first bytes of the PDF
+ */
+export function getPdfInfo(buf: Buffer): { title: string | null; author: string | null } {
+	// Byte offsets are kept as is in Latin-1
+	const text = buf.toString('latin1');
+	if (!text.startsWith('%PDF-')) {
+		return { title: null, author: null };
+	}
+
+	const info = /\/Info\s+(\d+)\s+(\d+)\s+R/.exec(text);
+	const object = info && new RegExp(`(?:^|\\s)${info[1]}\\s+${info[2]}\\s+obj\\b`).exec(text);
+	const end = object ? text.indexOf('endobj', object.index) : -1;
+	const dict = object ? text.slice(object.index, end === -1 ? undefined : end) : '';
+
+	const xmp = (tag: string) => {
+		const match = new RegExp(`<${tag}>[\\s\\S]*?<rdf:li[^>]*>([^<]*)</rdf:li>`).exec(text);
+		if (!match) return null;
+		const start = match.index + match[0].length - '</rdf:li>'.length - match[1].length;
+		return decodeHtml(buf.toString('utf8', start, start + match[1].length)).trim() || null;
+	};
+
+	return {
+		title: readPdfString(dict, 'Title') ?? xmp('dc:title'),
+		author: readPdfString(dict, 'Author') ?? xmp('dc:creator'),
+	};
+}
@@ -0,0 +1,133 @@
+import { readFile } from 'node:fs/promises';
+import * as cheerio from 'cheerio';
+import escapeRegExp from 'escape-regexp';
+
+/**
+ * An oEmbed provider in the format of https://oembed.com/providers.json
+ */
+export type OEmbedProvider = {
+	provider_name: string;
+	provider_url: string;
+	endpoints: {
+		schemes?: string[];
+		url: string;
+		discovery?: boolean;
+		formats?: string[];
+	}[];
+};
+
+export type OEmbedEndpoint = {
+	url: URL;
+	format: 'json' | 'xml';
+};
+
+const OEMBED_TYPES: Record<string, OEmbedEndpoint['format']> = {
+	'application/json+oembed': 'json',
+	'text/xml+oembed': 'xml',
+};
+
+/**
+ * Parse the HTTP Link header
+ * e.g. `<https://example.com/oembed?url=...>; rel="alternate"; type="application/json+oembed"`
+ */
+export function parseLinkHeader(value: string): { href: string; params: Record<string, string> }[] {
+	const links: { href: string; params: Record<string, string> }[] = [];
+	const pattern = /<([^>]*)>((?:\s*;\s*[^\s=;,]+(?:\s*=\s*(?:"[^"]*"|[^\s;,]*))?)*)\s*,?/g;
+	for (const [, href, rest] of value.matchAll(pattern)) {
+		const params: Record<string, string> = {};
+		for (const [, name, quoted, bare] of rest.matchAll(/;\s*([^\s=;,]+)(?:\s*=\s*(?:"([^"]*)"|([^\s;,]*)))?/g)) {
+			params[name.toLowerCase()] = quoted || bare || '';
+		}
+		links.push({ href, params });
+	}
+	return links;
+}
+
+function toEndpoint(href: string, type: string | undefined, base: string): OEmbedEndpoint | null {
+	const format = type ? OEMBED_TYPES[type.toLowerCase()] : undefined;
+	if (!format) return null;
+	try {
+		return { url: new URL(href, base), format };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Find the oEmbed endpoint advertised in the HTML or in the Link header
+ */
+export function discoverOEmbed($: cheerio.CheerioAPI, headers: Headers, pageUrl: string): OEmbedEndpoint | null {
+	for (const type of Object.keys(OEMBED_TYPES)) {
+		const href = $(`link[type="${type}"]`).attr('href');
+		if (href) {
+			return toEndpoint(href, type, pageUrl);
+		}
+	}
+
+	const link = headers.get('link');
+	if (link) {
+		for (const { href, params } of parseLinkHeader(link)) {
+			const endpoint = toEndpoint(href, params.type, pageUrl);
+			if (endpoint) return endpoint;
+		}
+	}
+
+	return null;
+}
+
+const providerFiles = new Map<string, Promise<OEmbedProvider[]>>();
+
+async function loadProviders(providers: OEmbedProvider[] | string): Promise<OEmbedProvider[]> {
+	if (typeof providers !== 'string') {
+		return providers;
+	}
+
+	let loaded = providerFiles.get(providers);
+	if (!loaded) {
+		loaded = readFile(providers, 'utf8').then(json => JSON.parse(json) as OEmbedProvider[]);
+		// Retry next time if failed
+		loaded.catch(() => providerFiles.delete(providers));
+		providerFiles.set(providers, loaded);
+	}
+	return await loaded;
+}
+
+/**
+ * Find the oEmbed endpoint for the page from the provider registry
+ */
+export async function findOEmbedProvider(providers: OEmbedProvider[] | string, pageUrl: string): Promise<OEmbedEndpoint | null> {
+	for (const provider of await loadProviders(providers)) {
+		for (const endpoint of provider.endpoints) {
+			const matches = endpoint.schemes?.some(scheme =>
+				new RegExp(`^${scheme.split('*').map(escapeRegExp).join('.*')}$`, 'i').test(pageUrl));
+			if (!matches) continue;
+
+			const format = endpoint.formats && !endpoint.formats.includes('json') && endpoint.formats.includes('xml') ? 'xml' : 'json';
+			const url = new URL(endpoint.url.replace('{format}', format));
+			url.searchParams.set('url', pageUrl);
+			url.searchParams.set('format', format);
+			return { url, format };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Parse the oEmbed response into an object of the same shape as the JSON format
+ */
+export function parseOEmbed(body: string, format: OEmbedEndpoint['format']): Record<string, unknown> | null {
+	try {
+		if (format === 'json') {
+			const json = JSON.parse(body);
+			return typeof json === 'object' && json !== null ? json : null;
+		}
+
+		const $ = cheerio.load(body, { xmlMode: true });
+		const root = $('oembed');
+		if (root.length === 0) return null;
+		return Object.fromEntries(root.children().toArray().map(element => [element.tagName, $(element).text()]));
+	} catch {
+		return null;
+	}
+}
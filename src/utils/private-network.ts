@@ -0,0 +1,223 @@
+import { isIP } from 'node:net';
+import dns from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockedAddressError } from './blocked-address-error.js';
+import type { LookupFunction } from 'node:net';
+
+export type PrivateNetworkOptions = {
+	rejectPrivateAddresses?: boolean;
+	allowedNetworks?: string[];
+	deniedNetworks?: string[];
+}
+
+type Network = {
+	family: 4 | 6;
+	address: bigint;
+	prefix: number;
+}
+
+/**
+ * Loopback, link-local, private, shared, reserved and multicast ranges.
+ * Cloud metadata endpoints (169.254.169.254, fd00:ec2::254, 100.100.100.200)
+ * are covered by the link-local, ULA and shared address ranges.
+ */
+const PRIVATE_NETWORKS = [
+	'0.0.0.0/8',
+	'10.0.0.0/8',
+	'100.64.0.0/10',
+	'127.0.0.0/8',
+	'169.254.0.0/16',
+	'172.16.0.0/12',
+	'192.0.0.0/24',
+	'192.0.2.0/24',
+	'192.88.99.0/24',
+	'192.168.0.0/16',
+	'198.18.0.0/15',
+	'198.51.100.0/24',
+	'203.0.113.0/24',
+	'224.0.0.0/4',
+	'240.0.0.0/4',
+	'::/128',
+	'::1/128',
+	'64:ff9b:1::/48',
+	'100::/64',
+	'2001:db8::/32',
+	'fc00::/7',
+	'fe80::/10',
+	'ff00::/8',
+];
+
+function parseAddress(address: string): { family: 4 | 6; value: bigint } | null {
+	const family = isIP(address);
+	if (family === 4) {
+		const value = address.split('.').reduce((acc, part) => (acc << 8n) + BigInt(Number(part)), 0n);
+		return { family, value };
+	}
+	if (family === 6) {
+		let groups: string[];
+		// Embedded IPv4 notation (e.g. ::ffff:127.0.0.1)
+		const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+		const rest = v4 ? address.slice(0, -v4[1].length) + '0:0' : address;
+		if (!rest.includes('::')) {
+			groups = rest.split(':');
+		} else {
+			const [head, tail] = rest.split('::');
+			const headGroups = head ? head.split(':') : [];
+			const tailGroups = tail ? tail.split(':') : [];
+			groups = [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+		}
+		let value = groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+		if (v4) {
+			value += parseAddress(v4[1])?.value ?? 0n;
+		}
+		return { family, value };
+	}
+	return null;
+}
+
+function parseNetwork(cidr: string): Network {
+	const [address, prefix = null] = cidr.trim().split('/');
+	const parsed = parseAddress(address);
+	if (!parsed) {
+		throw new TypeError(`Invalid network: ${cidr}`);
+	}
+	const bits = parsed.family === 4 ? 32 : 128;
+	const prefixLength = prefix === null ? bits : Number(prefix);
+	if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > bits) {
+		throw new TypeError(`Invalid network: ${cidr}`);
+	}
+	return {
+		family: parsed.family,
+		address: parsed.value >> BigInt(bits - prefixLength),
+		prefix: prefixLength,
+	};
+}
+
+function contains(networks: Network[], address: { family: 4 | 6; value: bigint }): boolean {
+	return networks.some(network => {
+		if (network.family !== address.family) return false;
+		const bits = network.family === 4 ? 32 : 128;
+		return (address.value >> BigInt(bits - network.prefix)) === network.address;
+	});
+}
+
+/**
+ * Unwrap IPv4-mapped, IPv4-compatible and NAT64 (64:ff9b::/96) IPv6 addresses
+ * so that they are matched against the IPv4 ranges.
+ */
+function normalize(address: { family: 4 | 6; value: bigint }): { family: 4 | 6; value: bigint } {
+	const prefix = address.value >> 32n;
+	if (address.family === 6 && (prefix === 0xffffn || prefix === 0x64ff9b0000000000000000n || (prefix === 0n && address.value > 1n))) {
+		return { family: 4, value: address.value & 0xffffffffn };
+	}
+	return address;
+}
+
+const privateNetworks = PRIVATE_NETWORKS.map(parseNetwork);
+
+export function isBlockedAddress(address: string, opts: PrivateNetworkOptions): boolean {
+	const parsed = parseAddress(address);
+	if (!parsed) return false;
+	const normalized = normalize(parsed);
+
+	if (opts.deniedNetworks && contains(opts.deniedNetworks.map(parseNetwork), normalized)) {
+		return true;
+	}
+	if (!opts.rejectPrivateAddresses) {
+		return false;
+	}
+	if (opts.allowedNetworks && contains(opts.allowedNetworks.map(parseNetwork), normalized)) {
+		return false;
+	}
+	return contains(privateNetworks, normalized);
+}
+
+/**
+ * Whether the address is in any of the networks in CIDR notation
+ */
+export function isInNetworks(address: string, networks: string[]): boolean {
+	const parsed = parseAddress(address);
+	return parsed !== null && contains(networks.map(parseNetwork), normalize(parsed));
+}
+
+/**
+ * Resolve the host of the url and throw a BlockedAddressError if any of its
+ * addresses is not allowed to be connected to.
+ *
+ * The address is resolved again when connecting, so the connection itself is
+ * guarded by getGuardedFetch against DNS rebinding.
+ */
+export async function assertAllowedAddress(url: URL, opts: PrivateNetworkOptions): Promise<void> {
+	if (!opts.rejectPrivateAddresses && !opts.deniedNetworks?.length) {
+		return;
+	}
+
+	const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+	const addresses = isIP(hostname)
+		? [hostname]
+		: (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+
+	for (const address of addresses) {
+		if (isBlockedAddress(address, opts)) {
+			throw new BlockedAddressError(`Blocked address ${address} for ${hostname}`, hostname, address);
+		}
+	}
+}
+
+/**
+ * A lookup for net.connect which fails with a BlockedAddressError if any of the addresses is not allowed
+ */
+export function createGuardedLookup(opts: PrivateNetworkOptions): LookupFunction {
+	return (hostname, options, callback) => {
+		// The callback takes an address and its family unless all is set
+		const done = callback as unknown as (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+		dns.lookup(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+			if (err) {
+				done(err, []);
+				return;
+			}
+			const blocked = addresses.find(({ address }) => isBlockedAddress(address, opts));
+			if (blocked) {
+				done(new BlockedAddressError(`Blocked address ${blocked.address} for ${hostname}`, hostname, blocked.address), []);
+				return;
+			}
+			if ((options as dns.LookupOneOptions | dns.LookupAllOptions).all) {
+				done(null, addresses);
+			} else {
+				done(null, addresses[0].address, addresses[0].family);
+			}
+		});
+	};
+}
+
+type Fetch = typeof globalThis.fetch;
+
+const guardedFetches = new Map<string, Promise<Fetch>>();
+
+async function createGuardedFetch(opts: PrivateNetworkOptions): Promise<Fetch> {
+	const { fetch: undiciFetch, Agent } = await import('undici');
+	const dispatcher = new Agent({ connect: { lookup: createGuardedLookup(opts) } });
+	return ((input: string, init?: RequestInit) => undiciFetch(input, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1])) as unknown as Fetch;
+}
+
+/**
+ * Get the fetch which validates the addresses it connects to, so that the
+ * host cannot resolve to another address after assertAllowedAddress.
+ * Returns null where the connection cannot be guarded, such as on Bun.
+ */
+export async function getGuardedFetch(opts: PrivateNetworkOptions): Promise<Fetch | null> {
+	if (!opts.rejectPrivateAddresses && !opts.deniedNetworks?.length) {
+		return null;
+	}
+	if ('Bun' in globalThis) {
+		return null;
+	}
+
+	const key = JSON.stringify([opts.rejectPrivateAddresses ?? false, opts.allowedNetworks ?? [], opts.deniedNetworks ?? []]);
+	let guardedFetch = guardedFetches.get(key);
+	if (!guardedFetch) {
+		guardedFetch = createGuardedFetch(opts);
+		guardedFetches.set(key, guardedFetch);
+	}
+	return guardedFetch;
+}
@@ -0,0 +1,79 @@
+import process from 'node:process';
+import { isIP } from 'node:net';
+import { isInNetworks } from './private-network.js';
+
+export type ProxyOptions = {
+	proxy?: string | boolean;
+	noProxy?: string[];
+}
+
+type Fetch = typeof globalThis.fetch;
+
+function getEnv(name: string): string | undefined {
+	return process.env[name.toLowerCase()] || process.env[name] || undefined;
+}
+
+/**
+ * Whether the url matches an entry of NO_PROXY, such as `example.com`, `.example.com`, `*.example.com`, `example.com:8080`, `10.0.0.0/8` or `*`
+ */
+function isNoProxy(url: URL, noProxy: string[]): boolean {
+	const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+	const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+	return noProxy.some(value => {
+		const entry = value.trim().toLowerCase();
+		if (entry === '') return false;
+		if (entry === '*') return true;
+
+		if (isIP(entry.split('/')[0])) {
+			return isIP(hostname) !== 0 && isInNetworks(hostname, [entry]);
+		}
+
+		const [, host, entryPort = null] = /^\[?(.*?)\]?(?::(\d+))?$/.exec(entry) ?? [];
+		if (entryPort !== null && entryPort !== port) return false;
+		if (isIP(host)) return host === hostname;
+		const domain = host.replace(/^\*?\./, '');
+		return hostname === domain || hostname.endsWith(`.${domain}`);
+	});
+}
+
+/**
+ * Get the proxy to request the url through, or null to request it directly.
+ * If the proxy is `true`, it is read from HTTP_PROXY, HTTPS_PROXY and NO_PROXY.
+ */
+export function getProxy(url: URL, opts: ProxyOptions): string | null {
+	if (!opts.proxy) return null;
+
+	const proxy = opts.proxy === true
+		? getEnv(url.protocol === 'https:' ? 'HTTPS_PROXY' : 'HTTP_PROXY')
+		: opts.proxy;
+	if (!proxy) return null;
+
+	const noProxy = opts.noProxy ?? (opts.proxy === true ? getEnv('NO_PROXY')?.split(',') : null) ?? [];
+	return isNoProxy(url, noProxy) ? null : proxy;
+}
+
+const proxyFetches = new Map<string, Promise<Fetch>>();
+
+async function createProxyFetch(proxy: string): Promise<Fetch> {
+	if ('Bun' in globalThis) {
+		// Bun supports proxies natively
+		return (input, init) => fetch(input, { ...init, proxy } as RequestInit);
+	}
+
+	const { fetch: undiciFetch, ProxyAgent } = await import('undici');
+	const dispatcher = new ProxyAgent(proxy);
+	return ((input: string, init?: RequestInit) => undiciFetch(input, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1])) as unknown as Fetch;
+}
+
+/**
+ * Get the fetch which sends the requests through the proxy
+ */
+export function getProxyFetch(proxy: string): Promise<Fetch> {
+	let proxyFetch = proxyFetches.get(proxy);
+	if (!proxyFetch) {
+		proxyFetch = createProxyFetch(proxy);
+		proxyFetches.set(proxy, proxyFetch);
+	}
+	return proxyFetch;
+}
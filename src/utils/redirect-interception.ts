@@ -0,0 +1,19 @@
+/**
+ * Thrown instead of fetching the url redirected to if interceptRedirect returns true for it
+ */
+export class RedirectInterception extends Error {
+	public name: string;
+	public url: URL;
+
+	/**
+	 * The urls redirected to, in order, up to and including url
+	 */
+	public redirects: string[];
+
+	constructor(url: URL, redirects: string[]) {
+		super(`Redirect to ${url.href} intercepted`);
+		this.name = 'RedirectInterception';
+		this.url = url;
+		this.redirects = redirects;
+	}
+}
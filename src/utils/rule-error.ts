@@ -0,0 +1,17 @@
+/**
+ * Thrown when site rules are malformed
+ */
+export class RuleError extends Error {
+	public name: string;
+
+	/**
+	 * Where in the rules the problem is, e.g. `rules[0].fields.title`
+	 */
+	public path: string;
+
+	constructor(path: string, message: string, options?: { cause?: unknown }) {
+		super(`${path}: ${message}`, options);
+		this.name = 'RuleError';
+		this.path = path;
+	}
+}
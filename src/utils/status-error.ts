@@ -1,11 +1,13 @@
-export class StatusError extends Error {
+import { SummalyError } from './summaly-error.js';
+
+export class StatusError extends SummalyError {
 	public name: string;
 	public statusCode: number;
 	public statusMessage?: string;
 	public isPermanentError: boolean;
 
 	constructor(message: string, statusCode: number, statusMessage?: string) {
-		super(message);
+		super('UPSTREAM_STATUS', message);
 		this.name = 'StatusError';
 		this.statusCode = statusCode;
 		this.statusMessage = statusMessage;
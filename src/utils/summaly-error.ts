@@ -0,0 +1,72 @@
+export type SummalyErrorCode =
+	| 'INVALID_URL'
+	| 'BLOCKED_ADDRESS'
+	| 'TOO_MANY_REDIRECTS'
+	| 'TIMEOUT'
+	| 'FETCH_FAILED'
+	| 'UPSTREAM_STATUS'
+	| 'UNSUPPORTED_CONTENT_TYPE'
+	| 'TOO_LARGE'
+	| 'CONTENT_LENGTH_REQUIRED'
+	| 'NO_METADATA'
+	| 'PLUGIN_FAILED'
+	| 'ABORTED';
+
+export class SummalyError extends Error {
+	public name: string;
+	public code: SummalyErrorCode;
+
+	constructor(code: SummalyErrorCode, message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = 'SummalyError';
+		this.code = code;
+	}
+}
+
+/**
+ * Convert errors thrown by fetch or while reading the body into SummalyError
+ */
+export function toSummalyError(e: unknown): SummalyError {
+	if (e instanceof SummalyError) {
+		return e;
+	}
+	// fetch wraps the errors of the connection, such as a BlockedAddressError from the lookup
+	if (e instanceof Error && e.cause instanceof SummalyError) {
+		return e.cause;
+	}
+	// DOMException is not always an instance of Error
+	const name = typeof e === 'object' && e !== null && 'name' in e ? e.name : null;
+	if (name === 'AbortError' || name === 'TimeoutError') {
+		return new SummalyError('TIMEOUT', 'Request timed out', { cause: e });
+	}
+	return new SummalyError('FETCH_FAILED', e instanceof Error ? e.message : String(e), { cause: e });
+}
+
+/**
+ * The HTTP status code to respond with for the error
+ */
+export function getHttpStatus(error: SummalyError): number {
+	switch (error.code) {
+		case 'INVALID_URL':
+		case 'BLOCKED_ADDRESS':
+			return 400;
+		case 'NO_METADATA':
+			return 404;
+		case 'UPSTREAM_STATUS':
+			return 'statusCode' in error && (error.statusCode === 404 || error.statusCode === 410) ? 404 : 502;
+		case 'TOO_LARGE':
+			return 413;
+		case 'UNSUPPORTED_CONTENT_TYPE':
+			return 415;
+		case 'TIMEOUT':
+			return 504;
+		// Client Closed Request, though the client is usually gone
+		case 'ABORTED':
+			return 499;
+		case 'TOO_MANY_REDIRECTS':
+		case 'FETCH_FAILED':
+		case 'CONTENT_LENGTH_REQUIRED':
+		case 'PLUGIN_FAILED':
+			return 502;
+	}
+}
@@ -7,12 +7,19 @@
 /* dependencies below */
 
 import fs, { readdirSync } from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
 import process from 'node:process';
+import { Readable } from 'node:stream';
 import { dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { expect, test, describe, afterEach } from '@jest/globals';
 import fastify from 'fastify';
-import { summaly } from '../src/index.js';
+import { summaly, summalyMany, fastify as summalyFastify, fetch as summalyFetch, createFetchHandler, selectParsed, BlockedAddressError, MemoryCache, RuleError, SummalyError } from '../src/index.js';
+import type { SummalyServerOptions } from '../src/index.js';
+import type { SummalyPlugin } from '../src/iplugin.js';
+import { cli } from '../src/cli.js';
+import { createGuardedLookup } from '../src/utils/private-network.js';
 
 const _filename = fileURLToPath(import.meta.url);
 const _dirname = dirname(_filename);
@@ -55,6 +62,17 @@ test('basic', async () => {
 		icon: null,
 		description: null,
 		thumbnail: null,
+		thumbnailWidth: null,
+		thumbnailHeight: null,
+		thumbnailAlt: null,
+		images: [],
+		author: null,
+		authorUrl: null,
+		publishedTime: null,
+		modifiedTime: null,
+		type: null,
+		locale: null,
+		themeColor: null,
 		player: {
 			url: null,
 			width: null,
@@ -68,6 +86,7 @@ test('basic', async () => {
 		sitename: 'localhost:3060',
 		sensitive: false,
 		url: host + '/',
+		redirects: [],
 		activityPub: null,
 	});
 });
@@ -86,6 +105,17 @@ test('non-unicode', async () => {
 		icon: null,
 		description: null,
 		thumbnail: null,
+		thumbnailWidth: null,
+		thumbnailHeight: null,
+		thumbnailAlt: null,
+		images: [],
+		author: null,
+		authorUrl: null,
+		publishedTime: null,
+		modifiedTime: null,
+		type: null,
+		locale: null,
+		themeColor: null,
 		player: {
 			url: null,
 			width: null,
@@ -99,6 +129,7 @@ test('non-unicode', async () => {
 		sitename: 'localhost:3060',
 		sensitive: false,
 		url: host + '/',
+		redirects: [],
 		activityPub: null,
 	});
 });
@@ -110,13 +141,17 @@ test('Stage Bye Stage', async () => {
 	expect(summary).toEqual(
 		{
 			'title': '【アイドルマスター】「Stage Bye Stage」(歌：島村卯月、渋谷凛、本田未央)',
-			'icon': 'https://www.youtube.com/s/desktop/a258f8cf/img/favicon.ico',
-			'description': 'Website▶https://columbia.jp/idolmaster/Playlist▶https://www.youtube.com/playlist?list=PL83A2998CF3BBC86D2018年7月18日発売予定THE IDOLM@STER CINDERELLA GIRLS CG STAR...',
-			'thumbnail': 'https://i.ytimg.com/vi/NMIEAhH_fTU/maxresdefault.jpg',
+			'icon': 'https://www.youtube.com/favicon.ico',
+			'description': null,
+			'thumbnail': 'https://i.ytimg.com/vi/NMIEAhH_fTU/hqdefault.jpg',
+			'thumbnailWidth': 480,
+			'thumbnailHeight': 360,
+			'author': expect.any(String),
+			'authorUrl': expect.any(String),
 			'player': {
-				'url': 'https://www.youtube.com/embed/NMIEAhH_fTU?feature=oembed',
-				'width': 200,
-				'height': 113,
+				'url': 'https://www.youtube-nocookie.com/embed/NMIEAhH_fTU',
+				'width': 560,
+				'height': 315,
 				'allow': [
 					'autoplay',
 					'clipboard-write',
@@ -130,6 +165,7 @@ test('Stage Bye Stage', async () => {
 			'sensitive': false,
 			'activityPub': null,
 			'url': 'https://www.youtube.com/watch?v=NMIEAhH_fTU',
+			'redirects': [],
 		},
 	);
 });
@@ -234,6 +270,50 @@ describe('OGP', () => {
 		const summary = await summaly(host);
 		expect(summary.thumbnail).toBe('https://himasaku.net/himasaku.png');
 	});
+
+	test('article', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/og-article.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host);
+		expect(summary.type).toBe('article');
+		expect(summary.locale).toBe('ja_JP');
+		expect(summary.thumbnailWidth).toBe(1200);
+		expect(summary.thumbnailHeight).toBe(630);
+		expect(summary.thumbnailAlt).toBe('A plate of strawberry pasta');
+		expect(summary.publishedTime).toBe('2024-03-18T12:34:56+09:00');
+		expect(summary.modifiedTime).toBe('2024-03-19T00:00:00+09:00');
+		expect(summary.author).toBe('syuilo');
+		expect(summary.authorUrl).toBe('https://example.com/@syuilo');
+		expect(summary.themeColor).toBe('#86b300');
+	});
+
+	test('multiple images', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/og-images.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host);
+		expect(summary.thumbnail).toBe('https://example.com/1.png');
+		expect(summary.thumbnailWidth).toBe(400);
+		expect(summary.thumbnailAlt).toBe('The first blobcat');
+		expect(summary.images).toEqual([
+			{ url: 'https://example.com/1.png', width: 400, height: 300, alt: 'The first blobcat', type: 'image/png' },
+			{ url: `${host}/2.jpg`, width: null, height: null, alt: 'The second blobcat', type: null },
+			{ url: 'https://example.com/3.webp', width: null, height: null, alt: null, type: null },
+		]);
+	});
 });
 
 describe('TwitterCard', () => {
@@ -450,6 +530,93 @@ describe('oEmbed', () => {
 		expect(summary.player.allow).toStrictEqual([]);
 	});
 
+	test('XML oEmbed', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/oembed-xml.html');
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		app.get('/oembed.xml', (request, reply) => {
+			const content = fs.readFileSync(new URL('oembed/oembed.xml', import.meta.url));
+			reply.header('content-type', 'text/xml');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host);
+		expect(summary.player.url).toBe('https://example.com/');
+		expect(summary.player.width).toBe(500);
+		expect(summary.player.height).toBe(300);
+	});
+
+	test('oEmbed in Link header', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-type', 'text/html');
+			reply.header('link', '<https://example.com/style.css>; rel="preload", </oembed.json>; rel="alternate"; type="application/json+oembed"; title="oEmbed"');
+			return reply.send(content);
+		});
+		app.get('/oembed.json', (request, reply) => {
+			const content = fs.readFileSync(new URL('oembed/oembed.json', import.meta.url));
+			reply.header('content-type', 'application/json');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host);
+		expect(summary.player.url).toBe('https://example.com/');
+	});
+
+	test('oEmbed provider registry', async () => {
+		await setUpFastify('oembed.json', 'htmls/basic.html');
+		const summary = await summaly(host, {
+			oEmbedProviders: [{
+				provider_name: 'Test',
+				provider_url: host,
+				endpoints: [{
+					schemes: [`${host}/*`],
+					url: `${host}/oembed.{format}`,
+				}],
+			}],
+		});
+		expect(summary.player.url).toBe('https://example.com/');
+	});
+
+	test('metadata', async () => {
+		await setUpFastify('oembed-metadata.json');
+		const summary = await summaly(host);
+		expect(summary.title).toBe('Strawberry Pasta');
+		expect(summary.sitename).toBe('Example');
+		expect(summary.author).toBe('Syuilo');
+		expect(summary.authorUrl).toBe('https://example.com/@syuilo');
+		expect(summary.thumbnail).toBe('https://example.com/thumbnail.png');
+		expect(summary.thumbnailWidth).toBe(640);
+		expect(summary.thumbnailHeight).toBe(360);
+		expect(summary.player.url).toBe('https://example.com/');
+	});
+
+	test('metadata is a fallback to OpenGraph', async () => {
+		await setUpFastify('oembed-metadata.json', 'htmls/oembed-and-og-image.html');
+		const summary = await summaly(host);
+		expect(summary.title).toBe('Strawberry Pasta from OGP');
+		expect(summary.sitename).toBe('Misskey');
+		expect(summary.thumbnail).toBe('https://example.com/og.png');
+		expect(summary.thumbnailWidth).toBe(null);
+		expect(summary.author).toBe('Syuilo');
+	});
+
+	test('photo', async () => {
+		await setUpFastify('oembed-photo.json');
+		const summary = await summaly(host);
+		expect(summary.title).toBe('Blobcat');
+		expect(summary.thumbnail).toBe('https://example.com/photo.jpg');
+		expect(summary.thumbnailWidth).toBe(1200);
+		expect(summary.thumbnailHeight).toBe(800);
+		expect(summary.player.url).toBe(null);
+	});
+
 	test('width: 100%', async () => {
 		await setUpFastify('oembed-percentage-width.json');
 		const summary = await summaly(host);
@@ -458,176 +625,1954 @@ describe('oEmbed', () => {
 	});
 });
 
-describe('ActivityPub', () => {
-	test('Basic', async () => {
+describe('JSON-LD', () => {
+	const setUpFastify = async () => {
 		app = fastify();
-		app.get('*', (request, reply) => {
-			const content = fs.readFileSync(_dirname + '/htmls/activitypub.html');
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/json-ld.html');
 			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
+		app.get('*', (_, reply) => reply.status(404).send());
 		await app.listen({ port });
+	};
 
+	test('fallback to OpenGraph', async () => {
+		await setUpFastify();
 		const summary = await summaly(host);
-		expect(summary.activityPub).toBe('https://misskey.test/notes/abcdefg');
+		expect(summary.title).toBe('Strawberry Pasta');
+		expect(summary.description).toBe('Strawberry Pasta is a pasta with strawberries');
+		expect(summary.thumbnail).toBe(`${host}/strawberry.png`);
+		expect(summary.author).toBe('Syuilo, Ai');
+		expect(summary.publishedTime).toBe('2024-03-18T12:34:56+09:00');
+		expect(summary.sitename).toBe('Misskey News');
+		expect(summary.icon).toBe('https://example.com/logo.png');
+		expect(summary.jsonLd).toBeUndefined();
 	});
 
-	test('Null', async () => {
+	test('raw object', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { jsonLd: true });
+		expect(summary.jsonLd?.['@type']).toBe('NewsArticle');
+		expect(summary.jsonLd?.headline).toBe('Strawberry Pasta');
+	});
+
+	test('no JSON-LD', async () => {
 		app = fastify();
-		app.get('*', (request, reply) => {
+		app.get('/', (request, reply) => {
 			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
-			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
 		await app.listen({ port });
 
-		const summary = await summaly(host);
-		expect(summary.activityPub).toBe(null);
+		const summary = await summaly(host, { jsonLd: true });
+		expect(summary.jsonLd).toBe(null);
 	});
 });
 
-describe('sensitive', () => {
-	test('default', async () => {
+describe('thumbnail and icon probing', () => {
+	const setUpFastify = async (missing: string[] = []) => {
 		app = fastify();
 		app.get('/', (request, reply) => {
-			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			const content = fs.readFileSync(_dirname + '/htmls/icons.html');
 			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
+		app.get('/manifest.json', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/manifest.json');
+			reply.header('content-type', 'application/manifest+json');
+			return reply.send(content);
+		});
+		app.get('/broken.png', (request, reply) => {
+			reply.header('content-type', 'text/html');
+			return reply.send('<!DOCTYPE html>');
+		});
+		app.get('*', (request, reply) => {
+			if (missing.includes(request.url)) {
+				return reply.status(404).send();
+			}
+			reply.header('content-type', 'image/png');
+			return reply.send(fs.readFileSync(_dirname + '/media/image.png'));
+		});
 		await app.listen({ port });
-		expect((await summaly(host)).sensitive).toBe(false);
+	};
+
+	test('thumbnails are not probed by default', async () => {
+		await setUpFastify();
+		const summary = await summaly(host);
+		expect(summary.thumbnail).toBe(`${host}/broken.png`);
+		expect(summary.icon).toBe(`${host}/favicon-16.png`);
 	});
 
-	test('mixi:content-rating 1', async () => {
+	test('thumbnail which is not an image is skipped', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { probeThumbnail: true });
+		expect(summary.thumbnail).toBe(`${host}/thumbnail.png`);
+	});
+
+	test('no thumbnail if none is an image', async () => {
+		await setUpFastify(['/thumbnail.png', '/apple-touch-icon.png']);
+		const summary = await summaly(host, { probeThumbnail: true });
+		expect(summary.thumbnail).toBe(null);
+	});
+
+	test('the smallest icon not smaller than iconSize is picked', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { iconSize: 64 });
+		expect(summary.icon).toBe(`${host}/icon-96.png`);
+	});
+
+	test('the next best icon is picked if the best one is missing', async () => {
+		await setUpFastify(['/icon-96.png']);
+		const summary = await summaly(host, { iconSize: 64 });
+		expect(summary.icon).toBe(`${host}/apple-touch-icon.png`);
+	});
+
+	test('the largest icon is picked if all are smaller than iconSize', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { iconSize: 1024 });
+		expect(summary.icon).toBe(`${host}/icon-512.png`);
+	});
+});
+
+describe('Web App Manifest', () => {
+	const setUpFastify = async () => {
 		app = fastify();
 		app.get('/', (request, reply) => {
-			const content = fs.readFileSync(_dirname + '/htmls/mixi-sensitive.html');
+			const content = fs.readFileSync(_dirname + '/htmls/manifest.html');
 			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
+		app.get('/manifest.json', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/manifest.json');
+			reply.header('content-type', 'application/manifest+json');
+			return reply.send(content);
+		});
+		app.get('/icon-96.png', (request, reply) => {
+			reply.header('content-type', 'image/png');
+			return reply.send(fs.readFileSync(_dirname + '/media/image.png'));
+		});
+		app.get('*', (request, reply) => reply.status(404).send());
 		await app.listen({ port });
-		expect((await summaly(host)).sensitive).toBe(true);
+	};
+
+	test('not fetched by default', async () => {
+		await setUpFastify();
+		const summary = await summaly(host);
+		expect(summary.sitename).toBe('localhost:3060');
+		expect(summary.icon).toBe(null);
+		expect(summary.themeColor).toBe(null);
 	});
-});
 
-describe('UserAgent', () => {
-	test('UA設定が反映されていること', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
-		let ua: string | undefined = undefined;
+	test('site name, icon and theme color', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { manifest: true });
+		expect(summary.sitename).toBe('Misskey');
+		expect(summary.icon).toBe(`${host}/icon-96.png`);
+		expect(summary.themeColor).toBe('#86b300');
+	});
+
+	test('contentLengthLimit is applied to the manifest', async () => {
+		await setUpFastify();
+		// Larger than the page, smaller than the manifest
+		const summary = await summaly(host, { manifest: true, contentLengthLimit: 200 });
+		expect(summary.title).toBe('Timeline');
+		expect(summary.sitename).toBe('localhost:3060');
+		expect(summary.themeColor).toBe(null);
+	});
+});
 
+describe('ActivityPub', () => {
+	test('Basic', async () => {
 		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-length', content.byteLength);
+		app.get('*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/activitypub.html');
+			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
-			ua = request.headers['user-agent'];
 			return reply.send(content);
 		});
 		await app.listen({ port });
-		await summaly(host, { userAgent: 'test-ua' });
 
-		expect(ua).toBe('test-ua');
+		const summary = await summaly(host);
+		expect(summary.activityPub).toBe('https://misskey.test/notes/abcdefg');
 	});
-});
-
-describe('content-length limit', () => {
-	test('content-lengthの上限以内であればエラーが起こらないこと', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
 
+	test('Null', async () => {
 		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-length', content.byteLength);
+		app.get('*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
 		await app.listen({ port });
 
-		expect(await summaly(host, { contentLengthLimit: content.byteLength })).toBeDefined();
+		const summary = await summaly(host);
+		expect(summary.activityPub).toBe(null);
 	});
 
-	test('content-lengthの上限を超えているとエラーになる事', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
-
+	const setUpFastify = async (note = 'note.json') => {
 		app = fastify();
 		app.get('/', (request, reply) => {
-			reply.header('content-length', content.byteLength);
+			const content = fs.readFileSync(_dirname + '/htmls/activitypub-local.html');
 			reply.header('content-type', 'text/html');
 			return reply.send(content);
 		});
+		app.get('/notes/abcdefg', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/activitypub/' + note);
+			reply.header('content-type', 'application/activity+json');
+			return reply.send(content);
+		});
+		app.get('/users/syuilo', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/activitypub/person.json');
+			reply.header('content-type', 'application/activity+json');
+			return reply.send(content);
+		});
+		app.get('*', (request, reply) => reply.status(404).send());
 		await app.listen({ port });
+	};
 
-		await expect(summaly(host, { contentLengthLimit: content.byteLength - 1 })).rejects.toThrow();
+	test('not fetched by default', async () => {
+		await setUpFastify();
+		const summary = await summaly(host);
+		expect(summary.sitename).toBe('Misskey');
+		expect(summary.sensitive).toBe(false);
+		expect(summary.activityPub).toBe('/notes/abcdefg');
 	});
 
-	test('content-lengthの上限を超えているとエラーになる事', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+	test('linked object', async () => {
+		await setUpFastify();
+		const summary = await summaly(host, { fetchActivityPub: true });
+		expect(summary.title).toBe('しゅいろ (@syuilo@localhost:3060)');
+		expect(summary.sitename).toBe('しゅいろ');
+		expect(summary.icon).toBe(`${host}/files/avatar.png`);
+		expect(summary.description).toBe('Strawberry Pasta\nis delicious\n\nTry it');
+		expect(summary.thumbnail).toBe(`${host}/files/pasta.png`);
+		expect(summary.thumbnailAlt).toBe('A plate of strawberry pasta');
+		expect(summary.images).toEqual([
+			{ url: `${host}/files/pasta.png`, width: 1200, height: 800, alt: 'A plate of strawberry pasta', type: 'image/png' },
+		]);
+		expect(summary.author).toBe('しゅいろ');
+		expect(summary.authorUrl).toBe(`${host}/@syuilo`);
+		expect(summary.publishedTime).toBe('2024-03-18T12:34:56.000Z');
+		expect(summary.sensitive).toBe(true);
+		expect(summary.activityPub).toBe('/notes/abcdefg');
+	});
 
-		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.hijack();
-			reply.raw.setHeader('content-type', 'text/html');
-			reply.raw.writeHead(200);
-			reply.raw.end(content);
-		});
-		await app.listen({ port });
+	test('content negotiation', async () => {
+		await setUpFastify();
+		const summary = await summaly(`${host}/users/syuilo`, { fetchActivityPub: true });
+		expect(summary.title).toBe('しゅいろ (@syuilo@localhost:3060)');
+		expect(summary.description).toBe('Misskey');
+		expect(summary.icon).toBe(`${host}/files/avatar.png`);
+		expect(summary.activityPub).toBe(`${host}/users/syuilo`);
+	});
 
-		await expect(summaly(host, { contentLengthLimit: content.byteLength - 1 })).rejects.toThrow();
+	test('object of another origin is ignored', async () => {
+		await setUpFastify('note-another-origin.json');
+		const summary = await summaly(host, { fetchActivityPub: true });
+		expect(summary.sitename).toBe('Misskey');
+		expect(summary.description).toBe('Strawberry Pasta');
+		expect(summary.sensitive).toBe(false);
 	});
 });
 
-describe('content-length required', () => {
-	test('[オプション有効化時] content-lengthが返された場合はエラーとならないこと', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+describe('YouTube', () => {
+	// The player and the thumbnail are built from the url, so these pass without the network
 
-		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-length', content.byteLength);
-			reply.header('content-type', 'text/html');
-			return reply.send(content);
+	test('start time and playlist', async () => {
+		const summary = await summaly('https://www.youtube.com/watch?v=NMIEAhH_fTU&list=PL83A2998CF3BBC86D&t=1m30s');
+		expect(summary.player.url).toBe('https://www.youtube-nocookie.com/embed/NMIEAhH_fTU?list=PL83A2998CF3BBC86D&start=90');
+		expect(summary.player.width).toBe(560);
+		expect(summary.player.height).toBe(315);
+		expect(summary.thumbnail).toBe('https://i.ytimg.com/vi/NMIEAhH_fTU/hqdefault.jpg');
+		expect(summary.sitename).toBe('YouTube');
+	});
+
+	test('youtu.be', async () => {
+		const summary = await summaly('https://youtu.be/NMIEAhH_fTU?t=42');
+		expect(summary.player.url).toBe('https://www.youtube-nocookie.com/embed/NMIEAhH_fTU?start=42');
+	});
+
+	test('Shorts are vertical', async () => {
+		const summary = await summaly('https://www.youtube.com/shorts/NMIEAhH_fTU');
+		expect(summary.player.url).toBe('https://www.youtube-nocookie.com/embed/NMIEAhH_fTU');
+		expect(summary.player.width).toBe(315);
+		expect(summary.player.height).toBe(560);
+	});
+
+	test('live', async () => {
+		const summary = await summaly('https://www.youtube.com/live/NMIEAhH_fTU');
+		expect(summary.player.url).toBe('https://www.youtube-nocookie.com/embed/NMIEAhH_fTU');
+	});
+
+	test('playlist', async () => {
+		const summary = await summaly('https://www.youtube.com/playlist?list=PL83A2998CF3BBC86D');
+		expect(summary.player.url).toBe('https://www.youtube-nocookie.com/embed/videoseries?list=PL83A2998CF3BBC86D');
+	});
+});
+
+describe('Wikipedia', () => {
+	const fixtures: Record<string, string> = {
+		'https://en.wikipedia.org/api/rest_v1/page/summary/Alan_Turing': 'alan-turing.json',
+		'https://en.wikipedia.org/api/rest_v1/page/summary/Mercury': 'mercury.json',
+		'https://commons.wikimedia.org/api/rest_v1/page/summary/File%3AExample.jpg': 'example-jpg.json',
+	};
+
+	const createFetch = (requested: { url: string; userAgent: string | null }[]): typeof globalThis.fetch => async (input, init) => {
+		const url = new URL(String(input));
+		requested.push({ url: url.href, userAgent: new Headers(init?.headers).get('user-agent') });
+		const json = (name: string) => new Response(fs.readFileSync(`${_dirname}/wikipedia/${name}`), {
+			headers: { 'content-type': 'application/json' },
 		});
-		await app.listen({ port });
 
-		expect(await summaly(host, { contentLengthRequired: true, contentLengthLimit: content.byteLength })).toBeDefined();
+		if (url.href in fixtures) return json(fixtures[url.href]);
+		if (url.pathname === '/w/api.php' && url.searchParams.get('page') === 'Alan Turing') {
+			if (url.searchParams.get('prop') === 'sections') return json('alan-turing-sections.json');
+			if (url.searchParams.get('prop') === 'text' && url.searchParams.get('section') === '2') return json('alan-turing-section-2.json');
+		}
+		if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/w/api.php')) {
+			return new Response('{}', { status: 404, headers: { 'content-type': 'application/json' } });
+		}
+		return new Response(init?.method === 'HEAD' ? null : '<html><head><title>general</title></head></html>', {
+			headers: { 'content-type': 'text/html' },
+		});
+	};
+
+	test('記事', async () => {
+		const requested: { url: string; userAgent: string | null }[] = [];
+		const summary = await summaly('https://en.wikipedia.org/wiki/Alan_Turing', {
+			userAgent: 'TestBot/1.0',
+			fetch: createFetch(requested),
+		});
+		expect(summary.title).toBe('Alan Turing');
+		expect(summary.description).toBe('Alan Mathison Turing was an English mathematician, computer scientist, logician, cryptanalyst, philosopher and theoretical biologist.');
+		expect(summary.sitename).toBe('Wikipedia');
+		expect(summary.icon).toBe('https://en.wikipedia.org/favicon.ico');
+		expect(summary.thumbnail).toBe('https://upload.wikimedia.org/wikipedia/commons/thumb/a/a1/Alan_Turing_Aged_16.jpg/320px-Alan_Turing_Aged_16.jpg');
+		expect(summary.thumbnailWidth).toBe(320);
+		expect(summary.thumbnailHeight).toBe(442);
+		expect(summary.locale).toBe('en');
+		expect(summary.modifiedTime).toBe('2024-03-01T12:34:56Z');
+		// The user agent is sent to the API too
+		expect(requested).toEqual([{ url: 'https://en.wikipedia.org/api/rest_v1/page/summary/Alan_Turing', userAgent: 'TestBot/1.0' }]);
 	});
 
-	test('[オプション有効化時] content-lengthが返されない場合はエラーとなること', async () => {
-		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-type', 'text/html');
-			// streamで渡さないとcontent-lengthを自動で設定されてしまう
-			return reply.send(fs.createReadStream(_dirname + '/htmls/basic.html'));
+	test.each([
+		'https://en.m.wikipedia.org/wiki/Alan_Turing',
+		'https://en.wikipedia.org/w/index.php?title=Alan_Turing&oldid=1',
+		'https://en.wikipedia.org/wiki/Alan%20Turing',
+	])('%s はデスクトップ版のAPIで要約されること', async url => {
+		const requested: { url: string; userAgent: string | null }[] = [];
+		const summary = await summaly(url, { fetch: createFetch(requested) });
+		expect(summary.title).toBe('Alan Turing');
+		expect(requested.map(request => request.url)).toEqual(['https://en.wikipedia.org/api/rest_v1/page/summary/Alan_Turing']);
+	});
+
+	test('セクションのアンカー', async () => {
+		const summary = await summaly('https://en.wikipedia.org/wiki/Alan_Turing#Career_and_research', {
+			fetch: createFetch([]),
 		});
-		await app.listen({ port });
+		expect(summary.title).toBe('Alan Turing § Career and research');
+		expect(summary.description).toBe('In 1936, Turing published his paper.\nHe later worked at Bletchley Park.');
+	});
 
-		await expect(summaly(host, { contentLengthRequired: true })).rejects.toThrow();
+	test('存在しないセクションのアンカーは無視されること', async () => {
+		const summary = await summaly('https://en.wikipedia.org/wiki/Alan_Turing#Legacy', {
+			fetch: createFetch([]),
+		});
+		expect(summary.title).toBe('Alan Turing');
+		expect(summary.description).toBe('Alan Mathison Turing was an English mathematician, computer scientist, logician, cryptanalyst, philosopher and theoretical biologist.');
 	});
 
-	test('[オプション無効化時] content-lengthが返された場合はエラーとならないこと', async () => {
-		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+	test('曖昧さ回避ページは短い説明が使われること', async () => {
+		const summary = await summaly('https://en.wikipedia.org/wiki/Mercury', {
+			fetch: createFetch([]),
+		});
+		expect(summary.title).toBe('Mercury');
+		expect(summary.description).toBe('Topics referred to by the same term');
+	});
 
-		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-length', content.byteLength);
-			reply.header('content-type', 'text/html');
-			return reply.send(content);
+	test('Commonsのファイルページ', async () => {
+		const summary = await summaly('https://commons.m.wikimedia.org/wiki/File:Example.jpg', {
+			fetch: createFetch([]),
 		});
-		await app.listen({ port });
+		expect(summary.title).toBe('File:Example.jpg');
+		expect(summary.sitename).toBe('Wikimedia Commons');
+		expect(summary.icon).toBe('https://commons.wikimedia.org/favicon.ico');
+		expect(summary.thumbnail).toBe('https://upload.wikimedia.org/wikipedia/commons/thumb/a/a9/Example.jpg/320px-Example.jpg');
+	});
 
-		expect(await summaly(host, { contentLengthRequired: false, contentLengthLimit: content.byteLength })).toBeDefined();
+	test.each([
+		'https://commons.wikimedia.org/wiki/Main_Page',
+		'https://meta.wikimedia.org/wiki/File:Example.jpg',
+		'https://en.wikipedia.org/',
+	])('%s にはプラグインがマッチしないこと', async url => {
+		const requested: { url: string; userAgent: string | null }[] = [];
+		const summary = await summaly(url, { fetch: createFetch(requested) });
+		expect(summary.title).toBe('general');
+		expect(requested[0].url).toBe(url);
+		expect(requested.some(request => request.url.includes('/api'))).toBe(false);
 	});
 
-	test('[オプション無効化時] content-lengthが返されなくてもエラーとならないこと', async () => {
-		app = fastify();
-		app.get('/', (request, reply) => {
-			reply.header('content-type', 'text/html');
-			// streamで渡さないとcontent-lengthを自動で設定されてしまう
-			return reply.send(fs.createReadStream(_dirname + '/htmls/basic.html'));
+	test('APIが失敗した場合は一般的なスクレイピングに任せること', async () => {
+		const requested: { url: string; userAgent: string | null }[] = [];
+		const summary = await summaly('https://ja.wikipedia.org/wiki/Missing', { fetch: createFetch(requested) });
+		expect(summary.title).toBe('general');
+		expect(requested.map(request => request.url).slice(0, 2)).toEqual([
+			'https://ja.wikipedia.org/api/rest_v1/page/summary/Missing',
+			'https://ja.wikipedia.org/wiki/Missing',
+		]);
+	});
+});
+
+describe('Amazon', () => {
+	const createFetch = (pages: Record<string, string>, requested: string[]): typeof globalThis.fetch => async (input, init) => {
+		const url = String(input);
+		requested.push(url);
+		if (url === 'https://amzn.to/3abcdef') {
+			return new Response(null, { status: 301, headers: { location: 'https://www.amazon.co.jp/%E3%81%84%E3%81%A1%E3%81%94/dp/B0ABCDEFGH?ref_=ast_sto_dp&th=1' } });
+		}
+		if (!(url in pages)) {
+			return new Response(null, { status: 404 });
+		}
+		return new Response(init?.method === 'HEAD' ? null : fs.readFileSync(`${_dirname}/htmls/${pages[url]}`), {
+			headers: { 'content-type': 'text/html; charset=utf-8' },
 		});
-		await app.listen({ port });
+	};
 
-		expect(await summaly(host, { contentLengthRequired: false })).toBeDefined();
+	test('商品ページ', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://www.amazon.com/Strawberry-Pasta-Maker/dp/b0abcdefgh/ref=sr_1_1?keywords=pasta&tag=affiliate-20', {
+			fetch: createFetch({ 'https://www.amazon.com/dp/B0ABCDEFGH': 'amazon.html' }, requested),
+		});
+		// Fetched without the slug and the tracking parameters
+		expect(requested).toEqual(['https://www.amazon.com/dp/B0ABCDEFGH']);
+		expect(summary.title).toBe('Strawberry Pasta Maker');
+		expect(summary.description).toBe('Makes strawberry pasta.');
+		expect(summary.thumbnail).toBe('https://m.media-amazon.com/images/I/pasta._SL1500_.jpg');
+		expect(summary.icon).toBe('https://www.amazon.com/favicon.ico');
+		expect(summary.sitename).toBe('Amazon');
+		expect(summary.product).toEqual({
+			id: 'B0ABCDEFGH',
+			url: 'https://www.amazon.com/dp/B0ABCDEFGH',
+			price: '$19.99',
+			availability: 'In Stock',
+			rating: 4.3,
+			ratingCount: 1234,
+		});
+	});
+
+	test('日本のマーケットプレイス', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://amazon.co.jp/gp/product/B0ABCDEFGH?psc=1', {
+			fetch: createFetch({ 'https://www.amazon.co.jp/dp/B0ABCDEFGH': 'amazon-jp.html' }, requested),
+		});
+		expect(requested).toEqual(['https://www.amazon.co.jp/dp/B0ABCDEFGH']);
+		expect(summary.title).toBe('いちごパスタメーカー');
+		expect(summary.description).toBe('いちごパスタを作れます');
+		expect(summary.icon).toBe('https://www.amazon.co.jp/favicon.ico');
+		expect(summary.product).toEqual({
+			id: 'B0ABCDEFGH',
+			url: 'https://www.amazon.co.jp/dp/B0ABCDEFGH',
+			price: '￥1,980',
+			availability: '在庫あり。',
+			rating: 4.3,
+			ratingCount: 1234,
+		});
+	});
+
+	test('小数点にコンマを使うマーケットプレイス', async () => {
+		const summary = await summaly('https://www.amazon.de/exec/obidos/ASIN/B0ABCDEFGH', {
+			fetch: createFetch({ 'https://www.amazon.de/dp/B0ABCDEFGH': 'amazon-de.html' }, []),
+		});
+		expect(summary.title).toBe('Erdbeer-Nudelmaschine');
+		expect(summary.icon).toBe('https://www.amazon.de/favicon.ico');
+		expect(summary.product?.price).toBe('18,99 €');
+		expect(summary.product?.availability).toBe(null);
+		expect(summary.product?.rating).toBe(4.3);
+		expect(summary.product?.ratingCount).toBe(1234);
+	});
+
+	test('短縮URL', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://amzn.to/3abcdef', {
+			fetch: createFetch({ 'https://www.amazon.co.jp/%E3%81%84%E3%81%A1%E3%81%94/dp/B0ABCDEFGH?ref_=ast_sto_dp&th=1': 'amazon-jp.html' }, requested),
+		});
+		expect(requested[0]).toBe('https://amzn.to/3abcdef');
+		expect(summary.title).toBe('いちごパスタメーカー');
+		expect(summary.icon).toBe('https://www.amazon.co.jp/favicon.ico');
+		expect(summary.product?.id).toBe('B0ABCDEFGH');
+		expect(summary.product?.url).toBe('https://www.amazon.co.jp/dp/B0ABCDEFGH');
+	});
+
+	test('商品以外のページ', async () => {
+		const summary = await summaly('https://www.amazon.com/gp/help/customer/display.html', {
+			fetch: createFetch({ 'https://www.amazon.com/gp/help/customer/display.html': 'amazon.html' }, []),
+		});
+		expect(summary.sitename).toBe('Amazon');
+		expect(summary.product).toBe(null);
+	});
+
+	test.each([
+		'https://www.amazon.jobs/en/',
+		'https://www.amazon.example/dp/B0ABCDEFGH',
+	])('%s はマーケットプレイスでないこと', async url => {
+		const summary = await summaly(url, {
+			fetch: createFetch({ [url]: 'amazon.html' }, []),
+		});
+		expect(summary.sitename).not.toBe('Amazon');
+		expect(summary.product).toBeUndefined();
+	});
+});
+
+describe('Fediverse', () => {
+	const setUpFastify = async (software: 'mastodon' | 'misskey') => {
+		app = fastify();
+		app.get('/.well-known/nodeinfo', (request, reply) => {
+			return reply.send({
+				links: [{ rel: 'http://nodeinfo.diaspora.software/ns/schema/2.0', href: `http://${request.headers.host}/nodeinfo/2.0` }],
+			});
+		});
+		app.get('/nodeinfo/2.0', (request, reply) => {
+			reply.header('content-type', 'application/json');
+			return reply.send(fs.readFileSync(`${_dirname}/fediverse/${software}-nodeinfo.json`));
+		});
+		app.get('/api/v1/instance', (request, reply) => {
+			reply.header('content-type', 'application/json');
+			return reply.send(fs.readFileSync(`${_dirname}/fediverse/mastodon-instance.json`));
+		});
+		app.get('/api/v1/statuses/111111111111111111', (request, reply) => {
+			reply.header('content-type', 'application/json');
+			return reply.send(fs.readFileSync(`${_dirname}/fediverse/mastodon-status.json`));
+		});
+		app.get('/api/v1/accounts/lookup', (request, reply) => {
+			reply.header('content-type', 'application/json');
+			return reply.send(fs.readFileSync(`${_dirname}/fediverse/mastodon-account.json`));
+		});
+		app.post('/api/notes/show', (request, reply) => {
+			expect(request.body).toEqual({ noteId: '9abcdefghi' });
+			reply.header('content-type', 'application/json');
+			return reply.send(fs.readFileSync(`${_dirname}/fediverse/misskey-note.json`));
+		});
+		app.get('*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+	};
+
+	test('Mastodon status', async () => {
+		await setUpFastify('mastodon');
+		const summary = await summaly(`${host}/@syuilo/111111111111111111`);
+		expect(summary.title).toBe('しゅいろ (@syuilo)');
+		expect(summary.sitename).toBe('Mastodon Test');
+		expect(summary.icon).toBe(`${host}/avatars/syuilo.png`);
+		expect(summary.description).toBe('Food');
+		expect(summary.sensitive).toBe(true);
+		expect(summary.thumbnail).toBe(`${host}/media/pasta.png`);
+		expect(summary.images).toEqual([
+			{ url: `${host}/media/pasta.png`, width: 1200, height: 800, alt: 'A plate of strawberry pasta', type: null },
+		]);
+		expect(summary.author).toBe('しゅいろ');
+		expect(summary.authorUrl).toBe(`${host}/@syuilo`);
+		expect(summary.publishedTime).toBe('2024-03-18T03:34:56.000Z');
+		expect(summary.activityPub).toBe(`${host}/users/syuilo/statuses/111111111111111111`);
+	});
+
+	test('Mastodon profile', async () => {
+		await setUpFastify('mastodon');
+		const summary = await summaly(`${host}/@syuilo`);
+		expect(summary.title).toBe('しゅいろ (@syuilo)');
+		expect(summary.description).toBe('Misskey\ndeveloper');
+		expect(summary.thumbnail).toBe(null);
+		expect(summary.sensitive).toBe(false);
+		expect(summary.activityPub).toBe(`${host}/users/syuilo`);
+	});
+
+	test('Misskey note', async () => {
+		// Another origin than the Mastodon server, whose software is remembered
+		const misskeyHost = `http://127.0.0.1:${port}`;
+		await setUpFastify('misskey');
+		const summary = await summaly(`${misskeyHost}/notes/9abcdefghi`);
+		expect(summary.title).toBe('藍 (@ai)');
+		expect(summary.sitename).toBe('Misskey Test');
+		expect(summary.description).toBe('Strawberry Pasta');
+		expect(summary.sensitive).toBe(true);
+		expect(summary.player.url).toBe(`${misskeyHost}/files/pasta.mp4`);
+		expect(summary.player.mediaType).toBe('video/mp4');
+		expect(summary.authorUrl).toBe(`${misskeyHost}/@ai`);
+		expect(summary.activityPub).toBe(`${misskeyHost}/notes/9abcdefghi`);
+	});
+
+	test('not a Fediverse server', async () => {
+		app = fastify();
+		app.get('*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		// Another origin than the Fediverse servers above
+		await app.listen({ port: port + 1 });
+
+		const summary = await summaly(`http://localhost:${port + 1}/@syuilo`);
+		expect(summary.title).toBe('KISS principle');
+	});
+
+	test('Fediverseでないサーバーではリダイレクトとプラグインが通常通り処理されること', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://blog.example/@user', {
+			fetch: async (input, init) => {
+				const url = String(input);
+				requested.push(url);
+				if (url === 'https://blog.example/@user') {
+					return new Response(null, { status: 301, headers: { location: 'https://blog.example/@user/' } });
+				}
+				if (url === 'https://blog.example/@user/') {
+					return new Response(init?.method === 'HEAD' ? null : '<html><head><title>blog</title></head></html>', {
+						headers: { 'content-type': 'text/html' },
+					});
+				}
+				return new Response(null, { status: 404 });
+			},
+			plugins: [{
+				test: url => url.hostname === 'blog.example',
+				transform: ($, summary) => ({ ...summary, sitename: 'transformed' }),
+			}],
+		});
+		expect(requested).toContain('https://blog.example/.well-known/nodeinfo');
+		expect(summary.title).toBe('blog');
+		expect(summary.sitename).toBe('transformed');
+		expect(summary.redirects).toEqual(['https://blog.example/@user/']);
+	});
+
+	test('Fediverseでないサーバーでは次にマッチしたプラグインのsummarizeが使われること', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://notes.example/@user', {
+			fetch: async input => {
+				requested.push(String(input));
+				return new Response(null, { status: 404 });
+			},
+			plugins: [{
+				test: url => url.hostname === 'notes.example',
+				summarize: async url => ({
+					title: url.pathname,
+					icon: null,
+					description: null,
+					thumbnail: null,
+					sitename: 'custom',
+					player: { url: null, width: null, height: null, allow: [] },
+					activityPub: null,
+				}),
+			}],
+		});
+		expect(requested).toEqual(['https://notes.example/.well-known/nodeinfo']);
+		expect(summary.title).toBe('/@user');
+		expect(summary.sitename).toBe('custom');
+	});
+});
+
+describe('sensitive', () => {
+	test('default', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+		expect((await summaly(host)).sensitive).toBe(false);
+	});
+
+	test('mixi:content-rating 1', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/mixi-sensitive.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+		expect((await summaly(host)).sensitive).toBe(true);
+	});
+});
+
+describe('UserAgent', () => {
+	test('UA設定が反映されていること', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+		let ua: string | undefined = undefined;
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-length', content.byteLength);
+			reply.header('content-type', 'text/html');
+			ua = request.headers['user-agent'];
+			return reply.send(content);
+		});
+		await app.listen({ port });
+		await summaly(host, { userAgent: 'test-ua' });
+
+		expect(ua).toBe('test-ua');
+	});
+});
+
+describe('content-length limit', () => {
+	test('content-lengthの上限以内であればエラーが起こらないこと', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-length', content.byteLength);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		expect(await summaly(host, { contentLengthLimit: content.byteLength })).toBeDefined();
+	});
+
+	test('content-lengthの上限を超えているとエラーになる事', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-length', content.byteLength);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, { contentLengthLimit: content.byteLength - 1 })).rejects.toThrow();
+	});
+
+	test('content-lengthの上限を超えているとエラーになる事', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.hijack();
+			reply.raw.setHeader('content-type', 'text/html');
+			reply.raw.writeHead(200);
+			reply.raw.end(content);
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, { contentLengthLimit: content.byteLength - 1 })).rejects.toThrow();
+	});
+});
+
+describe('content-length required', () => {
+	test('[オプション有効化時] content-lengthが返された場合はエラーとならないこと', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-length', content.byteLength);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		expect(await summaly(host, { contentLengthRequired: true, contentLengthLimit: content.byteLength })).toBeDefined();
+	});
+
+	test('[オプション有効化時] content-lengthが返されない場合はエラーとなること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-type', 'text/html');
+			// streamで渡さないとcontent-lengthを自動で設定されてしまう
+			return reply.send(fs.createReadStream(_dirname + '/htmls/basic.html'));
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, { contentLengthRequired: true })).rejects.toThrow();
+	});
+
+	test('[オプション無効化時] content-lengthが返された場合はエラーとならないこと', async () => {
+		const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-length', content.byteLength);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		expect(await summaly(host, { contentLengthRequired: false, contentLengthLimit: content.byteLength })).toBeDefined();
+	});
+
+	test('[オプション無効化時] content-lengthが返されなくてもエラーとならないこと', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-type', 'text/html');
+			// streamで渡さないとcontent-lengthを自動で設定されてしまう
+			return reply.send(fs.createReadStream(_dirname + '/htmls/basic.html'));
+		});
+		await app.listen({ port });
+
+		expect(await summaly(host, { contentLengthRequired: false })).toBeDefined();
+	});
+});
+
+describe('redirects', () => {
+	test('リダイレクト先が記録されること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.redirect('/a'));
+		app.get('/a', (request, reply) => reply.redirect(301, '/b'));
+		app.get('/b', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host);
+		expect(summary.title).toBe('KISS principle');
+		expect(summary.url).toBe(host + '/');
+		expect(summary.redirects).toEqual([host + '/a', host + '/b']);
+	});
+
+	test('maxRedirectsを超えるとエラーになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.redirect('/a'));
+		app.get('/a', (request, reply) => reply.redirect('/b'));
+		app.get('/b', (request, reply) => reply.redirect('/'));
+		await app.listen({ port });
+
+		await expect(summaly(host, { maxRedirects: 2 })).rejects.toThrow();
+	});
+
+	test('http(s)以外へのリダイレクトはエラーになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.redirect('file:///etc/passwd'));
+		await app.listen({ port });
+
+		await expect(summaly(host)).rejects.toThrow();
+	});
+
+	test('リダイレクト先にマッチするプラグインが使われること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.redirect('/plugin'));
+		app.get('/plugin', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host, {
+			plugins: [{
+				test: url => url.pathname === '/plugin',
+				summarize: async () => ({
+					title: 'plugin',
+					icon: null,
+					description: null,
+					thumbnail: null,
+					sitename: null,
+					player: { url: null, width: null, height: null, allow: [] },
+					activityPub: null,
+				}),
+			}],
+		});
+		expect(summary.title).toBe('plugin');
+		expect(summary.redirects).toEqual([host + '/plugin']);
+	});
+
+	test('プラグインがマッチするリダイレクト先は取得されないこと', async () => {
+		const watch = 'https://www.youtube.com/watch?v=NMIEAhH_fTU';
+		const requested: string[] = [];
+		const summary = await summaly('https://short.example/abc', {
+			fetch: async (input, init) => {
+				const url = String(input);
+				requested.push(url);
+				if (url === 'https://short.example/abc') {
+					return new Response(null, { status: 302, headers: { location: watch } });
+				}
+				if (url.startsWith('https://www.youtube.com/oembed?')) {
+					return new Response(init?.method === 'HEAD' ? null : JSON.stringify({ title: 'video', author_name: 'channel' }), {
+						headers: { 'content-type': 'application/json' },
+					});
+				}
+				return new Response(null, { status: 429 });
+			},
+		});
+		expect(summary.title).toBe('video');
+		expect(summary.redirects).toEqual([watch]);
+		expect(requested).not.toContain(watch);
+	});
+});
+
+describe('private network', () => {
+	test('デフォルトではプライベートアドレスへのリクエストが許可されること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		expect(await summaly(host)).toBeDefined();
+	});
+
+	test('rejectPrivateAddresses有効時はプライベートアドレスへのリクエストがエラーになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, { rejectPrivateAddresses: true })).rejects.toThrow(BlockedAddressError);
+	});
+
+	test('allowedNetworksに含まれるアドレスは許可されること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host, {
+			rejectPrivateAddresses: true,
+			allowedNetworks: ['127.0.0.0/8', '::1/128'],
+		});
+		expect(summary.title).toBe('KISS principle');
+	});
+
+	test('リダイレクト先のプライベートアドレスもエラーになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			return reply.redirect('http://169.254.169.254/latest/meta-data/');
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, {
+			rejectPrivateAddresses: true,
+			allowedNetworks: ['127.0.0.0/8', '::1/128'],
+		})).rejects.toThrow(BlockedAddressError);
+	});
+
+	test('deniedNetworksに含まれるアドレスは常にエラーになること', async () => {
+		await expect(summaly('http://[::ffff:7f00:1]:3060/', {
+			deniedNetworks: ['127.0.0.1/32'],
+		})).rejects.toThrow(BlockedAddressError);
+	});
+
+	test('NAT64アドレスは埋め込まれたIPv4アドレスで判定されること', async () => {
+		await expect(summaly('http://[64:ff9b::7f00:1]:3060/', {
+			rejectPrivateAddresses: true,
+		})).rejects.toThrow(BlockedAddressError);
+
+		const summary = await summaly('http://[64:ff9b::808:808]/', {
+			rejectPrivateAddresses: true,
+			fetch: async (input, init) => new Response(init?.method === 'HEAD' ? null : '<html><head><title>NAT64</title></head></html>', {
+				headers: { 'content-type': 'text/html' },
+			}),
+		});
+		expect(summary.title).toBe('NAT64');
+	});
+
+	test('接続時の名前解決でもプライベートアドレスが拒否されること', async () => {
+		// Resolving again when connecting is what DNS rebinding relies on
+		const lookup = createGuardedLookup({ rejectPrivateAddresses: true });
+		const error = await new Promise(resolve => lookup('localhost', { all: true }, resolve));
+		expect(error).toBeInstanceOf(BlockedAddressError);
+
+		const allowed = createGuardedLookup({ rejectPrivateAddresses: true, allowedNetworks: ['127.0.0.0/8', '::1/128'] });
+		const addresses = await new Promise((resolve, reject) => allowed('localhost', { all: true }, (err, addresses) => err ? reject(err) : resolve(addresses)));
+		expect(addresses).not.toHaveLength(0);
+	});
+});
+
+describe('cache', () => {
+	const setUpFastify = async (headers: Record<string, string> = {}) => {
+		let count = 0;
+		app = fastify();
+		app.get('/', (request, reply) => {
+			count++;
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.headers(headers);
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+		return () => count;
+	};
+
+	test('キャッシュされた結果が返されること', async () => {
+		const count = await setUpFastify();
+		const cache = new MemoryCache();
+
+		const first = await summaly(host, { cache });
+		const second = await summaly(host, { cache });
+		expect(second).toEqual(first);
+		expect(count()).toBe(1);
+	});
+
+	test('Cache-Control: no-storeの場合はキャッシュされないこと', async () => {
+		const count = await setUpFastify({ 'cache-control': 'no-store' });
+		const cache = new MemoryCache();
+
+		await summaly(host, { cache });
+		await summaly(host, { cache });
+		expect(count()).toBe(2);
+	});
+
+	test('期限切れのエントリはバックグラウンドで更新されること', async () => {
+		const count = await setUpFastify({ 'cache-control': 'max-age=0' });
+		const cache = new MemoryCache();
+
+		await summaly(host, { cache });
+		expect((await summaly(host, { cache })).title).toBe('KISS principle');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(count()).toBe(2);
+	});
+
+	test('失敗もキャッシュされること', async () => {
+		let count = 0;
+		app = fastify();
+		app.get('/', (request, reply) => {
+			count++;
+			return reply.status(404).send();
+		});
+		await app.listen({ port });
+		const cache = new MemoryCache();
+
+		await expect(summaly(host, { cache })).rejects.toThrow();
+		await expect(summaly(host, { cache })).rejects.toThrow();
+		expect(count).toBe(1);
+	});
+
+	test('timeoutによる失敗はキャッシュされないこと', async () => {
+		const cache = new MemoryCache();
+		let slow = true;
+		const fetch: typeof globalThis.fetch = (input, init) => new Promise((resolve, reject) => {
+			if (!slow) {
+				resolve(new Response(init?.method === 'HEAD' ? null : '<html><head><title>fast</title></head></html>', {
+					headers: { 'content-type': 'text/html' },
+				}));
+				return;
+			}
+			init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+		});
+
+		await expect(summaly('https://example.test/', { cache, fetch, timeout: 100 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+		slow = false;
+		expect((await summaly('https://example.test/', { cache, fetch })).title).toBe('fast');
+	});
+
+	test('結果が変わるオプションごとにキャッシュされること', async () => {
+		const count = await setUpFastify();
+		const cache = new MemoryCache();
+
+		await summaly(host, { cache });
+		await expect(summaly(host, { cache, rejectPrivateAddresses: true })).rejects.toMatchObject({ code: 'BLOCKED_ADDRESS' });
+		await summaly(host, { cache, rejectPrivateAddresses: true, allowedNetworks: ['127.0.0.0/8', '::1/128'] });
+		await summaly(host, { cache });
+		expect(count()).toBe(2);
+	});
+
+	test('jsonLdとプラグインごとにキャッシュされること', async () => {
+		const count = await setUpFastify();
+		const cache = new MemoryCache();
+		const plugin: SummalyPlugin = {
+			test: () => true,
+			transform: (_, summary) => ({ ...summary, sitename: 'transformed' }),
+		};
+
+		await summaly(host, { cache });
+		await summaly(host, { cache, jsonLd: false });
+		expect((await summaly(host, { cache, plugins: [plugin] })).sitename).toBe('transformed');
+		expect((await summaly(host, { cache, plugins: [plugin] })).sitename).toBe('transformed');
+		expect((await summaly(host, { cache })).sitename).not.toBe('transformed');
+		await summaly(host, { cache, jsonLd: false });
+		expect(count()).toBe(3);
+	});
+});
+
+describe('coalescing', () => {
+	const setUpFastify = async () => {
+		let count = 0;
+		app = fastify();
+		app.get('/', async (request, reply) => {
+			count++;
+			await new Promise(resolve => setTimeout(resolve, 100));
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+		return () => count;
+	};
+
+	test('同時に同じURLを要約するとリクエストが1回になること', async () => {
+		const count = await setUpFastify();
+
+		const summaries = await Promise.all([summaly(host), summaly(host), summaly(host)]);
+		expect(summaries[1]).toEqual(summaries[0]);
+		expect(summaries[2]).toEqual(summaries[0]);
+		expect(summaries[1]).not.toBe(summaries[0]);
+		expect(count()).toBe(1);
+	});
+
+	test('オプションが異なる場合はまとめられないこと', async () => {
+		const count = await setUpFastify();
+
+		await Promise.all([summaly(host), summaly(host, { userAgent: 'test-ua' })]);
+		expect(count()).toBe(2);
+	});
+
+	test('エラーも共有されること', async () => {
+		let count = 0;
+		app = fastify();
+		app.get('/', async (request, reply) => {
+			count++;
+			await new Promise(resolve => setTimeout(resolve, 100));
+			return reply.status(500).send();
+		});
+		await app.listen({ port });
+
+		const results = await Promise.allSettled([summaly(host), summaly(host)]);
+		expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+		expect(count).toBe(1);
+	});
+});
+
+describe('errors', () => {
+	test('不正なURLはINVALID_URLになること', async () => {
+		await expect(summaly('ftp://example.com/')).rejects.toMatchObject({ code: 'INVALID_URL' });
+	});
+
+	test('ステータスコードエラーはUPSTREAM_STATUSになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.status(404).send());
+		await app.listen({ port });
+
+		await expect(summaly(host)).rejects.toMatchObject({ code: 'UPSTREAM_STATUS', statusCode: 404 });
+	});
+
+	test('HTML以外はUNSUPPORTED_CONTENT_TYPEになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => reply.header('content-type', 'application/json').send('{}'));
+		await app.listen({ port });
+
+		await expect(summaly(host)).rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT_TYPE' });
+	});
+
+	test('サイズ超過はTOO_LARGEになること', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.hijack();
+			reply.raw.setHeader('content-type', 'text/html');
+			reply.raw.writeHead(200);
+			reply.raw.end(fs.readFileSync(_dirname + '/htmls/basic.html'));
+		});
+		await app.listen({ port });
+
+		await expect(summaly(host, { contentLengthLimit: 10 })).rejects.toMatchObject({ code: 'TOO_LARGE' });
+	});
+
+	test('タイムアウトはTIMEOUTになること', async () => {
+		app = fastify();
+		app.get('/', async (request, reply) => {
+			await new Promise(resolve => setTimeout(resolve, 500));
+			return reply.status(204).send();
+		});
+		await app.listen({ port });
+
+		const error = await summaly(host, { responseTimeout: 100 }).catch(e => e);
+		expect(error).toBeInstanceOf(SummalyError);
+		expect(error.code).toBe('TIMEOUT');
+	});
+
+	test('プラグインのエラーはPLUGIN_FAILEDになること', async () => {
+		await expect(summaly('https://plugin.test/', {
+			plugins: [{
+				test: url => url.hostname === 'plugin.test',
+				summarize: async () => {
+					throw new Error('oops');
+				},
+			}],
+		})).rejects.toMatchObject({ code: 'PLUGIN_FAILED' });
+	});
+
+	test('HTTPハンドラーがコードに応じたステータスを返すこと', async () => {
+		app = fastify();
+		app.get('/404', (request, reply) => reply.status(404).send());
+		app.get('/json', (request, reply) => reply.header('content-type', 'application/json').send('{}'));
+		app.register(summalyFastify, { prefix: '/summaly' });
+		await app.listen({ port });
+
+		const notFound = await app.inject({ url: '/summaly/', query: { url: `${host}/404` } });
+		expect(notFound.statusCode).toBe(404);
+		expect(notFound.json()).toEqual({ error: { code: 'UPSTREAM_STATUS', message: '404 Not Found' } });
+
+		const unsupported = await app.inject({ url: '/summaly/', query: { url: `${host}/json` } });
+		expect(unsupported.statusCode).toBe(415);
+		expect(unsupported.json().error.code).toBe('UNSUPPORTED_CONTENT_TYPE');
+
+		const noUrl = await app.inject({ url: '/summaly/' });
+		expect(noUrl.statusCode).toBe(400);
+		expect(noUrl.json().error.code).toBe('INVALID_URL');
+	});
+});
+
+describe('batch', () => {
+	const setUpFastify = async (options?: SummalyServerOptions) => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		app.get('/404', (request, reply) => reply.status(404).send());
+		if (options) {
+			app.register(summalyFastify, { prefix: '/summaly', ...options });
+		}
+		await app.listen({ port });
+		return app;
+	};
+
+	test('URLごとの結果とエラーを順番に返すこと', async () => {
+		await setUpFastify();
+
+		const entries = await summalyMany([host, `${host}/404`, 'invalid']);
+		expect(entries.map(entry => entry.url)).toEqual([host, `${host}/404`, 'invalid']);
+		expect(entries[0].result?.title).toBe('KISS principle');
+		expect(entries[0].error).toBeNull();
+		expect(entries[1].result).toBeNull();
+		expect(entries[1].error).toMatchObject({ code: 'UPSTREAM_STATUS' });
+		expect(entries[2].error).toMatchObject({ code: 'INVALID_URL' });
+	});
+
+	test('同時に要約するURLの数がconcurrencyを超えないこと', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const entries = await summalyMany(['https://a.test/', 'https://b.test/', 'https://c.test/', 'https://d.test/', 'https://e.test/'], {
+			concurrency: 2,
+			plugins: [{
+				test: url => url.hostname.endsWith('.test'),
+				summarize: async url => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await new Promise(resolve => setTimeout(resolve, 20));
+					running--;
+					return { title: url.hostname, icon: null, description: null, thumbnail: null, sitename: null, player: { url: null, width: null, height: null, allow: [] }, sensitive: false, activityPub: null };
+				},
+			}],
+		});
+		expect(entries.map(entry => entry.result?.title)).toEqual(['a.test', 'b.test', 'c.test', 'd.test', 'e.test']);
+		expect(maxRunning).toBe(2);
+	});
+
+	test('POST /batchでURLごとの結果を返すこと', async () => {
+		const server = await setUpFastify({ maxBatchSize: 2 });
+
+		const res = await server.inject({ method: 'POST', url: '/summaly/batch', payload: { urls: [host, `${host}/404`] } });
+		expect(res.statusCode).toBe(200);
+		const [ok, notFound] = res.json();
+		expect(ok).toMatchObject({ url: host, status: 200, result: { title: 'KISS principle' } });
+		expect(notFound).toEqual({ url: `${host}/404`, status: 404, error: { code: 'UPSTREAM_STATUS', message: '404 Not Found' } });
+
+		const tooLarge = await server.inject({ method: 'POST', url: '/summaly/batch', payload: { urls: [host, host, host] } });
+		expect(tooLarge.statusCode).toBe(413);
+		expect(tooLarge.json().error.code).toBe('BATCH_TOO_LARGE');
+
+		const invalid = await server.inject({ method: 'POST', url: '/summaly/batch', payload: { urls: [1] } });
+		expect(invalid.statusCode).toBe(400);
+		expect(invalid.json().error.code).toBe('INVALID_REQUEST');
+	});
+
+	test('fetchハンドラーでもPOST /batchを受け付けること', async () => {
+		await setUpFastify();
+
+		const res = await summalyFetch(new Request('http://summaly.test/batch', {
+			method: 'POST',
+			body: JSON.stringify({ urls: [host] }),
+		}));
+		expect(res.status).toBe(200);
+		expect(await res.json()).toMatchObject([{ url: host, status: 200, result: { title: 'KISS principle' } }]);
+
+		const invalid = await summalyFetch(new Request('http://summaly.test/batch', { method: 'POST', body: 'not json' }));
+		expect(invalid.status).toBe(400);
+	});
+
+	test('maxBodySizeより大きいボディは読まずに拒否すること', async () => {
+		const server = await setUpFastify({ maxBodySize: 64 });
+		const handler = createFetchHandler({ maxBodySize: 64 });
+		const body = JSON.stringify({ urls: [`${host}/${'a'.repeat(64)}`] });
+
+		const declared = await handler(new Request('http://summaly.test/batch', {
+			method: 'POST',
+			headers: { 'content-length': String(body.length) },
+			body,
+		}));
+		expect(declared.status).toBe(413);
+		expect((await declared.json()).error.code).toBe('BATCH_TOO_LARGE');
+
+		const streamed = await handler(new Request('http://summaly.test/batch', {
+			method: 'POST',
+			body: new Blob([body]).stream(),
+			duplex: 'half',
+		} as RequestInit));
+		expect(streamed.status).toBe(413);
+		expect((await streamed.json()).error.code).toBe('BATCH_TOO_LARGE');
+
+		const res = await server.inject({ method: 'POST', url: '/summaly/batch', payload: JSON.parse(body) });
+		expect(res.statusCode).toBe(413);
+	});
+});
+
+describe('HTTP handlers', () => {
+	const setUpFastify = async (options?: SummalyServerOptions) => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		app.get('/ua', (request, reply) => {
+			reply.header('content-type', 'text/html');
+			return reply.send(`<html><head><title>${request.headers['user-agent']}</title></head></html>`);
+		});
+		if (options) {
+			app.register(summalyFastify, { prefix: '/summaly', ...options });
+		}
+		await app.listen({ port });
+		return app;
+	};
+
+	test('createFetchHandlerにオプションを渡せること', async () => {
+		await setUpFastify();
+		const handler = createFetchHandler({ userAgent: 'test-agent' });
+
+		const res = await handler(new Request(`http://summaly.test/?url=${encodeURIComponent(`${host}/ua`)}`));
+		expect(res.status).toBe(200);
+		expect((await res.json()).title).toBe('test-agent');
+	});
+
+	test('CORSとCache-Controlのヘッダーを返すこと', async () => {
+		await setUpFastify();
+		const handler = createFetchHandler({ cors: ['https://allowed.test'], cacheControl: 'public, max-age=3600' });
+
+		const allowed = await handler(new Request(`http://summaly.test/?url=${encodeURIComponent(host)}`, { headers: { origin: 'https://allowed.test' } }));
+		expect(allowed.headers.get('access-control-allow-origin')).toBe('https://allowed.test');
+		expect(allowed.headers.get('cache-control')).toBe('public, max-age=3600');
+
+		const denied = await handler(new Request(`http://summaly.test/?url=${encodeURIComponent(host)}`, { headers: { origin: 'https://denied.test' } }));
+		expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+
+		const noUrl = await handler(new Request('http://summaly.test/'));
+		expect(noUrl.status).toBe(400);
+		expect(noUrl.headers.get('cache-control')).toBeNull();
+	});
+
+	test('OPTIONSとHEADを処理すること', async () => {
+		await setUpFastify();
+		const handler = createFetchHandler({ cors: true });
+
+		const preflight = await handler(new Request('http://summaly.test/batch', { method: 'OPTIONS' }));
+		expect(preflight.status).toBe(204);
+		expect(preflight.headers.get('access-control-allow-origin')).toBe('*');
+		expect(preflight.headers.get('access-control-allow-methods')).toBe('POST, OPTIONS');
+
+		const head = await handler(new Request(`http://summaly.test/?url=${encodeURIComponent(host)}`, { method: 'HEAD' }));
+		expect(head.status).toBe(200);
+		expect(await head.text()).toBe('');
+
+		const notAllowed = await handler(new Request('http://summaly.test/', { method: 'DELETE' }));
+		expect(notAllowed.status).toBe(405);
+		expect(notAllowed.headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+	});
+
+	test('Fastifyプラグインもfetchハンドラーと同じように応答すること', async () => {
+		const server = await setUpFastify({ cors: true, cacheControl: 'public, max-age=3600', userAgent: 'test-agent' });
+
+		const res = await server.inject({ url: '/summaly/', query: { url: `${host}/ua` } });
+		expect(res.statusCode).toBe(200);
+		expect(res.json().title).toBe('test-agent');
+		expect(res.headers['access-control-allow-origin']).toBe('*');
+		expect(res.headers['cache-control']).toBe('public, max-age=3600');
+
+		const preflight = await server.inject({ method: 'OPTIONS', url: '/summaly/' });
+		expect(preflight.statusCode).toBe(204);
+		expect(preflight.headers['access-control-allow-methods']).toBe('GET, HEAD, OPTIONS');
+
+		const notAllowed = await server.inject({ method: 'POST', url: '/summaly/' });
+		expect(notAllowed.statusCode).toBe(405);
+	});
+});
+
+describe('CLI', () => {
+	const run = async (args: string[], stdin = '') => {
+		let stdout = '';
+		let stderr = '';
+		const code = await cli(args, {
+			stdin: Readable.from([stdin]),
+			stdout: { write: (chunk: string) => stdout += chunk },
+			stderr: { write: (chunk: string) => stderr += chunk },
+			cwd: _dirname,
+		});
+		return { code, stdout, stderr };
+	};
+
+	test('ローカルのHTMLファイルを要約できること', async () => {
+		const { code, stdout } = await run(['--json', 'htmls/basic.html']);
+		expect(code).toBe(0);
+		expect(JSON.parse(stdout)).toMatchObject({ title: 'KISS principle', url: 'http://localhost/basic.html' });
+	});
+
+	test('カードを表示すること', async () => {
+		const { code, stdout } = await run(['htmls/og-title.html', '--base-url', 'https://example.com/pasta']);
+		expect(code).toBe(0);
+		expect(stdout).toBe('Strawberry Pasta\nhttps://example.com/pasta\n  site:        example.com\n');
+	});
+
+	test('標準入力からURLを読み込むこと', async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			reply.header('content-type', 'text/html');
+			return reply.send(`<html><head><title>${request.headers['user-agent']}</title></head></html>`);
+		});
+		await app.listen({ port });
+
+		const { code, stdout } = await run(['--json', '--user-agent', 'test-agent'], `${host}\n# comment\n${host}/?page=2\n`);
+		expect(code).toBe(0);
+		expect(JSON.parse(stdout)).toMatchObject([
+			{ url: host, result: { title: 'test-agent' } },
+			{ url: `${host}/?page=2`, result: { title: 'test-agent' } },
+		]);
+	});
+
+	test('失敗したURLがある場合はコードを表示して1で終了すること', async () => {
+		const { code, stdout, stderr } = await run(['--json', 'htmls/basic.html', 'invalid']);
+		expect(code).toBe(1);
+		expect(JSON.parse(stdout)[1]).toEqual({ url: 'invalid', error: { code: 'INVALID_URL', message: 'Invalid url: invalid' } });
+		expect(stderr).toContain('INVALID_URL');
+	});
+
+	test('不正なオプションは2で終了すること', async () => {
+		expect((await run(['--max-size', 'big', 'htmls/basic.html'])).code).toBe(2);
+		expect((await run(['--unknown'])).code).toBe(2);
+	});
+});
+
+describe('cancellation', () => {
+	// Aborted requests can leave connections without a request behind
+	const createFastify = () => fastify({ forceCloseConnections: true });
+
+	const setUpSlowFastify = async (delay: number) => {
+		app = createFastify();
+		app.get('/', async (request, reply) => {
+			await new Promise(resolve => setTimeout(resolve, delay));
+			return reply.status(204).send();
+		});
+		await app.listen({ port });
+	};
+
+	test('本文が少しずつ届く場合もoperationTimeoutでTIMEOUTになること', async () => {
+		app = createFastify();
+		app.get('/', (request, reply) => {
+			const body = new Readable({ read() {} });
+			body.push('<!DOCTYPE html><html><head><title>drip</title></head><body>');
+			const interval = setInterval(() => body.push('<p>drip</p>'), 50);
+			reply.raw.on('close', () => {
+				clearInterval(interval);
+				body.destroy();
+			});
+			reply.header('content-type', 'text/html');
+			return reply.send(body);
+		});
+		await app.listen({ port });
+
+		const error = await summaly(host, { responseTimeout: 200, operationTimeout: 500 }).catch(e => e);
+		expect(error).toBeInstanceOf(SummalyError);
+		expect(error.code).toBe('TIMEOUT');
+	});
+
+	test('signalで中断するとABORTEDになること', async () => {
+		await setUpSlowFastify(1000);
+
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 100);
+		const error = await summaly(host, { signal: controller.signal }).catch(e => e);
+		expect(error).toBeInstanceOf(SummalyError);
+		expect(error.code).toBe('ABORTED');
+	});
+
+	test('中断済みのsignalはすぐにABORTEDになること', async () => {
+		await expect(summaly(host, { signal: AbortSignal.abort() })).rejects.toMatchObject({ code: 'ABORTED' });
+	});
+
+	test('timeoutを超えるとTIMEOUTになること', async () => {
+		await setUpSlowFastify(1000);
+
+		const error = await summaly(host, { timeout: 100 }).catch(e => e);
+		expect(error).toBeInstanceOf(SummalyError);
+		expect(error.code).toBe('TIMEOUT');
+		expect(error.message).toContain('Deadline');
+	});
+
+	test('timeoutは共有されたリクエストの完了を待たないこと', async () => {
+		// Work which ignores the signal, such as a request shared with other calls
+		let finish: () => void = () => {};
+		const finished = new Promise<void>(resolve => finish = resolve);
+		const startedAt = Date.now();
+		const error = await summaly('https://slow.example/', {
+			timeout: 200,
+			plugins: [{
+				test: url => url.hostname === 'slow.example',
+				priority: 1,
+				summarize: async () => {
+					await new Promise(resolve => setTimeout(resolve, 500));
+					finish();
+					return {
+						title: 'slow',
+						icon: null,
+						description: null,
+						thumbnail: null,
+						sitename: null,
+						player: { url: null, width: null, height: null, allow: [] },
+						activityPub: null,
+					};
+				},
+			}],
+		}).catch(e => e);
+		expect(error.code).toBe('TIMEOUT');
+		expect(Date.now() - startedAt).toBeLessThan(400);
+		await finished;
+	});
+
+	test('同じページの他の呼び出しが中断されても結果を受け取れること', async () => {
+		app = createFastify();
+		app.get('/', async (request, reply) => {
+			await new Promise(resolve => setTimeout(resolve, 300));
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const controller = new AbortController();
+		const aborted = summaly(host, { signal: controller.signal }).catch(e => e);
+		const summary = summaly(host, { signal: new AbortController().signal });
+		setTimeout(() => controller.abort(), 100);
+		expect((await aborted).code).toBe('ABORTED');
+		expect((await summary).title).toBe('KISS principle');
+	});
+});
+
+describe('fetch and proxy', () => {
+	const setUpFastify = async () => {
+		app = fastify();
+		app.get('/', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+	};
+
+	// A proxy which tunnels CONNECT requests, recording their targets
+	const setUpProxy = async (tunnels: string[]) => {
+		const sockets = new Set<net.Socket>();
+		const proxy = http.createServer((request, response) => response.writeHead(405).end());
+		proxy.on('connection', (socket: net.Socket) => {
+			sockets.add(socket);
+			socket.on('close', () => sockets.delete(socket));
+		});
+		proxy.on('connect', (request: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+			tunnels.push(request.url ?? '');
+			const [hostname, targetPort] = (request.url ?? '').split(':');
+			const target = net.connect(Number(targetPort), hostname, () => {
+				socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+				target.write(head);
+				target.pipe(socket);
+				socket.pipe(target);
+			});
+			target.on('error', () => socket.destroy());
+			socket.on('error', () => target.destroy());
+			socket.on('close', () => target.destroy());
+		});
+		await new Promise<void>(resolve => proxy.listen(port + 1, resolve));
+		return async () => {
+			// Tunnels are not closed by closeAllConnections
+			for (const socket of sockets) socket.destroy();
+			await new Promise(resolve => proxy.close(resolve));
+		};
+	};
+
+	test('fetchを差し替えられること', async () => {
+		const requested: string[] = [];
+		const summary = await summaly('https://example.test/', {
+			fetch: async (input, init) => {
+				requested.push(`${init?.method} ${input}`);
+				return new Response(init?.method === 'HEAD' ? null : '<html><head><title>mocked</title></head></html>', {
+					headers: { 'content-type': 'text/html' },
+				});
+			},
+		});
+		expect(summary.title).toBe('mocked');
+		expect(requested).toContain('GET https://example.test/');
+	});
+
+	test('差し替えたfetchでもcontentLengthLimitが適用されること', async () => {
+		const error = await summaly('https://example.test/', {
+			contentLengthLimit: 10,
+			fetch: async () => new Response('<html><head><title>mocked</title></head></html>', {
+				headers: { 'content-type': 'text/html' },
+			}),
+		}).catch(e => e);
+		expect(error).toBeInstanceOf(SummalyError);
+		expect(error.code).toBe('TOO_LARGE');
+	});
+
+	test('proxyを経由すること', async () => {
+		await setUpFastify();
+		const tunnels: string[] = [];
+		const closeProxy = await setUpProxy(tunnels);
+
+		try {
+			const summary = await summaly(host, { proxy: `http://localhost:${port + 1}` });
+			expect(summary.title).toBe('KISS principle');
+			expect(tunnels).toContain(`localhost:${port}`);
+		} finally {
+			await closeProxy();
+		}
+	});
+
+	test('noProxyに含まれるホストはproxyを経由しないこと', async () => {
+		await setUpFastify();
+		const tunnels: string[] = [];
+		const closeProxy = await setUpProxy(tunnels);
+
+		try {
+			const summary = await summaly(host, { proxy: `http://localhost:${port + 1}`, noProxy: ['localhost'] });
+			expect(summary.title).toBe('KISS principle');
+			expect(tunnels).toEqual([]);
+		} finally {
+			await closeProxy();
+		}
+	});
+
+	test('proxyがtrueの場合は環境変数を使用すること', async () => {
+		await setUpFastify();
+		const tunnels: string[] = [];
+		const closeProxy = await setUpProxy(tunnels);
+		process.env.HTTP_PROXY = `http://localhost:${port + 1}`;
+		process.env.NO_PROXY = 'example.com';
+
+		try {
+			const summary = await summaly(host, { proxy: true });
+			expect(summary.title).toBe('KISS principle');
+			expect(tunnels).toContain(`localhost:${port}`);
+		} finally {
+			delete process.env.HTTP_PROXY;
+			delete process.env.NO_PROXY;
+			await closeProxy();
+		}
+	});
+});
+
+describe('plugin hooks', () => {
+	const setUpFastify = async () => {
+		app = fastify();
+		app.get('/*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+	};
+
+	const fullPlugin = (title: string, priority?: number) => ({
+		test: () => true,
+		summarize: async () => ({
+			title,
+			icon: null,
+			description: null,
+			thumbnail: null,
+			sitename: null,
+			player: { url: null, width: null, height: null, allow: [] },
+			activityPub: null,
+		}),
+		priority,
+	});
+
+	test('transformで一般的な結果を加工できること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host, {
+			plugins: [{
+				test: url => url.hostname === 'localhost',
+				transform: ($, summary) => ({ ...summary, sitename: $('title').text() }),
+			}],
+		});
+		expect(summary.title).toBe('KISS principle');
+		expect(summary.sitename).toBe('KISS principle');
+	});
+
+	test('selectorsで指定した本文の要素をtransformで読めること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host, {
+			plugins: [{
+				test: url => url.hostname === 'localhost',
+				selectors: ['body > p'],
+				transform: ($, summary) => ({ ...summary, author: selectParsed($, 'body > p').text().slice(0, 4) }),
+			}, {
+				test: url => url.hostname === 'localhost',
+				selectors: ['h1'],
+				transform: ($, summary) => ({ ...summary, sitename: selectParsed($, 'h1').text() }),
+			}],
+		});
+		expect(summary.author).toBe('KISS');
+		expect(summary.sitename).toBe('KISS principle');
+	});
+
+	test('rewriteUrlで取得するURLを書き換えられること', async () => {
+		let requested: string | null = null;
+		app = fastify();
+		app.get('/*', (request, reply) => {
+			requested ??= request.url;
+			const content = fs.readFileSync(_dirname + '/htmls/basic.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host + '/a', {
+			plugins: [{
+				test: () => true,
+				rewriteUrl: url => new URL('/b', url),
+			}],
+		});
+		expect(requested).toBe('/b');
+		expect(summary.url).toBe(host + '/a');
+	});
+
+	test('priorityの順に適用されること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host, {
+			plugins: [
+				{ test: () => true, transform: (_, summary) => ({ ...summary, title: `${summary.title} a` }) },
+				{ test: () => true, transform: (_, summary) => ({ ...summary, title: `${summary.title} b` }), priority: 1 },
+				{ test: () => true, transform: (_, summary) => ({ ...summary, title: `${summary.title} c` }) },
+			],
+		});
+		expect(summary.title).toBe('KISS principle b a c');
+	});
+
+	test('優先度の最も高いプラグインがsummarizeを持つ場合はそれだけが使われること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host, {
+			plugins: [
+				{ test: () => true, transform: (_, summary) => ({ ...summary, title: 'transformed' }) },
+				fullPlugin('full', 1),
+			],
+		});
+		expect(summary.title).toBe('full');
+	});
+
+	test('優先度の低いsummarizeを持つプラグインは使われないこと', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host, {
+			plugins: [
+				fullPlugin('full', -1),
+				{ test: () => true, transform: (_, summary) => ({ ...summary, title: 'transformed' }) },
+			],
+		});
+		expect(summary.title).toBe('transformed');
+	});
+
+	test('フックのエラーはPLUGIN_FAILEDになること', async () => {
+		await setUpFastify();
+
+		await expect(summaly(host, {
+			plugins: [{
+				test: () => true,
+				transform: () => {
+					throw new Error('oops');
+				},
+			}],
+		})).rejects.toMatchObject({ code: 'PLUGIN_FAILED' });
+	});
+});
+
+describe('rules', () => {
+	const setUpFastify = async () => {
+		app = fastify();
+		app.get('/*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/rules.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+	};
+
+	test('セレクターとmetaから値を取得すること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host + '/items/1', {
+			rules: [{
+				hosts: ['localhost'],
+				fields: {
+					title: 'h1.item-name',
+					description: '.item-body > p',
+					thumbnail: { selector: '.item-image img', attribute: 'src' },
+					author: [{ meta: 'author' }, { meta: 'shop:author' }],
+				},
+				sitename: 'Example Shop',
+			}],
+		});
+		expect(summary.title).toBe('Blue Widget');
+		expect(summary.description).toBe('A very blue widget.');
+		expect(summary.thumbnail).toBe(host + '/images/widget.png');
+		expect(summary.author).toBe('Alice');
+		expect(summary.sitename).toBe('Example Shop');
+	});
+
+	test('URLを書き換えること', async () => {
+		let requested: string | null = null;
+		app = fastify();
+		app.get('/*', (request, reply) => {
+			requested ??= request.url;
+			const content = fs.readFileSync(_dirname + '/htmls/rules.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		await summaly(host + '/share/1?utm_source=x', {
+			rules: [{
+				hosts: ['localhost'],
+				rewrite: { pattern: '/share/(\\d+)', replacement: '/items/$1', searchParams: { $web_only: 'true' } },
+			}],
+		});
+		expect(requested).toBe('/items/1?utm_source=x&%24web_only=true');
+	});
+
+	test('リダイレクトと他のプラグインのtransformが通常通り処理されること', async () => {
+		app = fastify();
+		app.get('/short', (request, reply) => reply.redirect('/items/1'));
+		app.get('/items/1', (request, reply) => {
+			const content = fs.readFileSync(_dirname + '/htmls/rules.html');
+			reply.header('content-length', content.length);
+			reply.header('content-type', 'text/html');
+			return reply.send(content);
+		});
+		await app.listen({ port });
+
+		const summary = await summaly(host + '/short', {
+			rules: [{ hosts: ['localhost'], fields: { title: 'h1.item-name' } }],
+			plugins: [{
+				test: url => url.hostname === 'localhost',
+				transform: ($, summary) => ({ ...summary, sitename: 'transformed' }),
+			}],
+		});
+		expect(summary.title).toBe('Blue Widget');
+		expect(summary.sitename).toBe('transformed');
+		expect(summary.redirects).toEqual([host + '/items/1']);
+	});
+
+	test('YAMLファイルから読み込めること', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host + '/items/1', { rules: _dirname + '/rules/rules.yaml' });
+		expect(summary.title).toBe('Blue Widget');
+		expect(summary.sitename).toBe('Example Shop');
+	});
+
+	test('パスにマッチしない場合は適用されないこと', async () => {
+		await setUpFastify();
+
+		const summary = await summaly(host + '/about', { rules: _dirname + '/rules/rules.yaml' });
+		expect(summary.title).toBe('Untitled | Example Shop');
+		expect(summary.sitename).toBe('localhost:3060');
+	});
+
+	test('不正なルールはRuleErrorになること', async () => {
+		await expect(summaly(host, { rules: [{ hosts: 'localhost' } as never] })).rejects.toThrow(RuleError);
+		await expect(summaly(host, { rules: [{ hosts: ['localhost'], fields: { title: 'h1 + p' } }] })).rejects.toThrow('rules[0].fields.title.selector');
+		await expect(summaly(host, { rules: [{ hosts: ['localhost'], fields: { titel: 'h1' } } as never] })).rejects.toThrow('rules[0].fields.titel');
+	});
+});
+
+describe('media', () => {
+	const setUpFastify = async (path: string, type: string) => {
+		app = fastify();
+		app.get('/*', (request, reply) => {
+			const content = fs.readFileSync(_dirname + path);
+			reply.header('content-length', content.length);
+			reply.header('content-type', type);
+			return reply.send(content);
+		});
+		await app.listen({ port });
+	};
+
+	test('image', async () => {
+		await setUpFastify('/media/image.png', 'image/png');
+
+		const summary = await summaly(`${host}/image.png`);
+		expect(summary.title).toBe('image.png');
+		expect(summary.thumbnail).toBe(`${host}/image.png`);
+		expect(summary.thumbnailWidth).toBe(3);
+		expect(summary.thumbnailHeight).toBe(2);
+		expect(summary.player.url).toBe(null);
+	});
+
+	test('video', async () => {
+		await setUpFastify('/media/image.png', 'video/mp4');
+
+		const summary = await summaly(`${host}/video.mp4`);
+		expect(summary.title).toBe('video.mp4');
+		expect(summary.thumbnail).toBe(null);
+		expect(summary.player.url).toBe(`${host}/video.mp4`);
+		expect(summary.player.mediaType).toBe('video/mp4');
+	});
+
+	test('PDF', async () => {
+		await setUpFastify('/media/document.pdf', 'application/pdf');
+
+		const summary = await summaly(`${host}/document.pdf`);
+		expect(summary.title).toBe('Strawberry (Pasta)');
+		expect(summary.author).toBe('シャーッ');
+	});
+
+	test('content-lengthの上限を超えていても先頭だけ読むこと', async () => {
+		await setUpFastify('/media/image.png', 'image/png');
+
+		const summary = await summaly(`${host}/image.png`, { contentLengthLimit: 32 });
+		expect(summary.thumbnailWidth).toBe(3);
+		expect(summary.thumbnailHeight).toBe(2);
 	});
 });